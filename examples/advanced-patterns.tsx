@@ -1,5 +1,5 @@
 import React, { useEffect } from 'react';
-import { createStore, computed } from '../src/index';
+import { createStore, computed, asyncAction, useActionStatus } from '../src/index';
 
 // Todo List Example with Advanced Patterns
 interface Todo {
@@ -14,7 +14,6 @@ interface TodoState {
   todos: Todo[];
   filter: 'all' | 'active' | 'completed';
   searchTerm: string;
-  isLoading: boolean;
   lastUpdated: Date | null;
 }
 
@@ -22,7 +21,6 @@ const useTodoStore = createStore<TodoState>({
   todos: [],
   filter: 'all',
   searchTerm: '',
-  isLoading: false,
   lastUpdated: null
 });
 
@@ -66,21 +64,22 @@ const todoActions = {
       priority
     };
     
-    useTodoStore.setState(state => ({
-      ...state,
-      todos: [...state.todos, newTodo],
-      lastUpdated: new Date()
-    }));
+    // `update` hands the recipe a draft to mutate; untouched todos keep
+    // their identity in the next state.
+    useTodoStore.update(draft => {
+      draft.todos.push(newTodo);
+      draft.lastUpdated = new Date();
+    });
   },
 
   toggleTodo: (id: string) => {
-    useTodoStore.setState(state => ({
-      ...state,
-      todos: state.todos.map(todo =>
-        todo.id === id ? { ...todo, completed: !todo.completed } : todo
-      ),
-      lastUpdated: new Date()
-    }));
+    useTodoStore.update(draft => {
+      const todo = draft.todos.find(todo => todo.id === id);
+      if (todo) {
+        todo.completed = !todo.completed;
+        draft.lastUpdated = new Date();
+      }
+    });
   },
 
   deleteTodo: (id: string) => {
@@ -92,21 +91,21 @@ const todoActions = {
   },
 
   updateTodo: (id: string, updates: Partial<Pick<Todo, 'text' | 'priority'>>) => {
-    useTodoStore.setState(state => ({
-      ...state,
-      todos: state.todos.map(todo =>
-        todo.id === id ? { ...todo, ...updates } : todo
-      ),
-      lastUpdated: new Date()
-    }));
+    useTodoStore.update(draft => {
+      const todo = draft.todos.find(todo => todo.id === id);
+      if (todo) {
+        Object.assign(todo, updates);
+        draft.lastUpdated = new Date();
+      }
+    });
   },
 
   setFilter: (filter: TodoState['filter']) => {
-    useTodoStore.setState(state => ({ ...state, filter }));
+    useTodoStore.patch({ filter });
   },
 
   setSearchTerm: (searchTerm: string) => {
-    useTodoStore.setState(state => ({ ...state, searchTerm }));
+    useTodoStore.patch({ searchTerm });
   },
 
   clearCompleted: () => {
@@ -117,11 +116,17 @@ const todoActions = {
     }));
   },
 
-  loadTodos: async () => {
-    useTodoStore.setState(state => ({ ...state, isLoading: true }));
-    
+  // `asyncAction` tracks the loading and error status, and `latestOnly`
+  // aborts a pending load when a new one starts.
+  loadTodos: asyncAction(useTodoStore, async (signal: AbortSignal) => {
     // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    await new Promise((resolve, reject) => {
+      const timeout = setTimeout(resolve, 1000);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+      });
+    });
     
     const sampleTodos: Todo[] = [
       {
@@ -147,13 +152,8 @@ const todoActions = {
       }
     ];
     
-    useTodoStore.setState(state => ({
-      ...state,
-      todos: sampleTodos,
-      isLoading: false,
-      lastUpdated: new Date()
-    }));
-  }
+    useTodoStore.patch({ todos: sampleTodos, lastUpdated: new Date() });
+  }, { latestOnly: true })
 };
 
 // Todo Input Component
@@ -358,13 +358,23 @@ const TodoItem: React.FC<{ todo: Todo }> = ({ todo }) => {
 
 // Todo List Component
 const TodoList: React.FC = () => {
-  const { isLoading } = useTodoStore();
+  // `getFilteredTodos` isn't reactive, so subscribe to the whole store.
+  useTodoStore();
   const filteredTodos = getFilteredTodos();
+  const { status, error } = useActionStatus(todoActions.loadTodos);
 
-  if (isLoading) {
+  if (status === 'pending') {
     return <div style={{ textAlign: 'center', padding: '20px' }}>Loading todos...</div>;
   }
 
+  if (status === 'error') {
+    return (
+      <div style={{ textAlign: 'center', padding: '20px', color: '#c00' }}>
+        Failed to load todos: {String(error)}
+      </div>
+    );
+  }
+
   if (filteredTodos.length === 0) {
     return (
       <div style={{ textAlign: 'center', padding: '20px', color: '#666' }}>
@@ -388,7 +398,8 @@ const TodoApp: React.FC = () => {
 
   // Load initial data
   useEffect(() => {
-    todoActions.loadTodos();
+    todoActions.loadTodos().catch(() => {});
+    return () => todoActions.loadTodos.abort();
   }, []);
 
   return (
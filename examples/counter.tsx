@@ -7,43 +7,26 @@ interface CounterState {
   step: number;
 }
 
-// Create the counter store
-const useCounterStore = createStore<CounterState>({
+const initialCounterState: CounterState = {
   count: 0,
   step: 1
-});
+};
+
+// Create the counter store, with its actions defined alongside the state
+const useCounterStore = createStore(
+  initialCounterState,
+  (set) => ({
+    increment: () => set(state => ({ ...state, count: state.count + state.step })),
+    decrement: () => set(state => ({ ...state, count: state.count - state.step })),
+    reset: () => set(state => ({ ...state, count: 0 })),
+    setStep: (newStep: number) => set(state => ({ ...state, step: newStep }))
+  })
+);
 
 // Counter component using the full state
 const Counter: React.FC = () => {
   const { count, step } = useCounterStore();
-
-  const increment = () => {
-    useCounterStore.setState(state => ({
-      ...state,
-      count: state.count + state.step
-    }));
-  };
-
-  const decrement = () => {
-    useCounterStore.setState(state => ({
-      ...state,
-      count: state.count - state.step
-    }));
-  };
-
-  const reset = () => {
-    useCounterStore.setState(state => ({
-      ...state,
-      count: 0
-    }));
-  };
-
-  const setStep = (newStep: number) => {
-    useCounterStore.setState(state => ({
-      ...state,
-      step: newStep
-    }));
-  };
+  const { increment, decrement, reset, setStep } = useCounterStore.actions;
 
   return (
     <div style={{ padding: '20px', fontFamily: 'Arial, sans-serif' }}>
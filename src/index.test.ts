@@ -1,5 +1,53 @@
-import { renderHook, act } from '@testing-library/react';
-import { createStore, computed, memo } from './index';
+import { render, renderHook, act } from '@testing-library/react';
+import { Component, Suspense, createElement, type ReactNode } from 'react';
+import { hydrateRoot, type Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import {
+  createStore,
+  batch,
+  computed,
+  memo,
+  memoFamily,
+  useMemoSelector,
+  produce,
+  persist,
+  localStorageAdapter,
+  sessionStorageAdapter,
+  createIndexedDBAdapter,
+  createMigrations,
+  MigrationError,
+  withHistory,
+  devtools,
+  shallow,
+  deepEqual,
+  createStoreFactory,
+  createStoreContext,
+  derived,
+  getStore,
+  getStores,
+  resetAllStores,
+  syncTabs,
+  asyncAction,
+  useActionStatus,
+  createResource,
+  useResource,
+  createQueryClient,
+  useQuery,
+  useMutation,
+  optimistic,
+  reaction,
+} from './index';
+import type {
+  Middleware,
+  Resource,
+  StorageAdapter,
+  StoreHook,
+  StoreProviderProps,
+} from './index';
+import {
+  installMockDevtoolsExtension,
+  uninstallMockDevtoolsExtension,
+} from '../tests/devtools-mock';
 
 describe('React Foam', () => {
   describe('createStore', () => {
@@ -451,97 +499,3577 @@ describe("advanced selectors and memo", () => {
   });
 });
 
-describe("state update nuances", () => {
-  it("setState should replace the state, not merge it", () => {
-    // This is a critical test to document the library's behavior.
-    // Unlike Zustand, react-foam's setState does not automatically merge state.
+describe("memo deep tracking", () => {
+  interface Todo {
+    id: number;
+    done: boolean;
+  }
+  interface State {
+    user: { name: string; age: number };
+    items: Todo[];
+  }
+
+  const initialState: State = {
+    user: { name: "Ada", age: 36 },
+    items: [
+      { id: 1, done: false },
+      { id: 2, done: true },
+    ],
+  };
+
+  it("should ignore a replaced parent object when the nested value is unchanged", () => {
+    const compute = jest.fn((state: State) => ({ name: state.user.name }));
+    const selector = memo(compute);
+
+    const first = selector(initialState);
+    const second = selector({
+      ...initialState,
+      user: { ...initialState.user, age: 37 },
+    });
+
+    expect(second).toBe(first);
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    const third = selector({ ...initialState, user: { name: "Grace", age: 37 } });
+    expect(third).toEqual({ name: "Grace" });
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it("should track array elements by index", () => {
+    const compute = jest.fn((state: State) => state.items[1]!.done);
+    const selector = memo(compute);
+
+    selector(initialState);
+    const items = [{ id: 1, done: true }, initialState.items[1]!];
+    expect(selector({ ...initialState, items })).toBe(true);
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    const toggled = [items[0]!, { id: 2, done: false }];
+    expect(selector({ ...initialState, items: toggled })).toBe(false);
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it("should rebuild the tracked paths when the selector takes another branch", () => {
+    type BranchState = { useAge: boolean } & State;
+    const compute = jest.fn((state: BranchState) =>
+      state.useAge ? state.user.age : state.user.name
+    );
+    const selector = memo(compute);
+
+    const state: BranchState = { ...initialState, useAge: false };
+    expect(selector(state)).toBe("Ada");
+
+    const switched = { ...state, useAge: true };
+    expect(selector(switched)).toBe(36);
+
+    // `age` is tracked now, so changing it must recompute.
+    const older = { ...switched, user: { ...switched.user, age: 40 } };
+    expect(selector(older)).toBe(40);
+    expect(compute).toHaveBeenCalledTimes(3);
+
+    // `name` is no longer read, so changing it is ignored.
+    selector({ ...older, user: { ...older.user, name: "Grace" } });
+    expect(compute).toHaveBeenCalledTimes(3);
+  });
+
+  it("should return the original objects rather than tracking proxies", () => {
+    const selector = memo((state: State) =>
+      state.items.filter((item) => item.done)
+    );
+
+    const result = selector(initialState);
+    expect(result).toEqual([{ id: 2, done: true }]);
+    expect(result[0]).toBe(initialState.items[1]);
+  });
+
+  it("should recompute when a returned object is replaced", () => {
+    const selector = memo((state: State) => state.user);
+
+    expect(selector(initialState)).toBe(initialState.user);
+
+    const user = { ...initialState.user };
+    expect(selector({ ...initialState, user })).toBe(user);
+  });
+
+  it("should track the key set read by Object.keys", () => {
+    const compute = jest.fn((state: { flags: Record<string, boolean> }) =>
+      Object.keys(state.flags).length
+    );
+    const selector = memo(compute);
+
+    expect(selector({ flags: { a: true } })).toBe(1);
+    expect(selector({ flags: { a: false } })).toBe(1);
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    expect(selector({ flags: { a: true, b: true } })).toBe(2);
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it("should work with frozen state", () => {
+    const state = Object.freeze({
+      user: Object.freeze({ name: "Ada", age: 36 }),
+      items: Object.freeze([]) as unknown as Todo[],
+    });
+    const selector = memo((s: State) => ({ name: s.user.name }));
+
+    expect(selector(state)).toEqual({ name: "Ada" });
+  });
+
+  it("should unwrap proxies in frozen results without modifying them", () => {
+    const selector = memo((state: State) => Object.freeze({ u: state.user }));
+
+    const result = selector(initialState);
+    expect(result.u).toBe(initialState.user);
+    expect(Object.isFrozen(result)).toBe(true);
+  });
+
+  it("should track frozen state deeply", () => {
+    const freezeState = (name: string) =>
+      Object.freeze({
+        user: Object.freeze({ name, age: 36 }),
+        items: Object.freeze([]) as unknown as Todo[],
+      });
+    const compute = jest.fn((state: State) => state.user.name);
+    const selector = memo(compute);
+
+    expect(selector(freezeState("Ada"))).toBe("Ada");
+    expect(selector(freezeState("Ada"))).toBe("Ada");
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    expect(selector(freezeState("Grace"))).toBe("Grace");
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it("should unwrap proxies in returned maps and sets", () => {
+    const selector = memo(
+      (state: State) =>
+        [new Map([["user", state.user]]), new Set(state.items)] as const
+    );
+
+    const [users, items] = selector(initialState);
+    expect(users.get("user")).toBe(initialState.user);
+    expect(Array.from(items)).toEqual(initialState.items);
+    expect(Array.from(items)[0]).toBe(initialState.items[0]);
+  });
+
+  it("should recompute for every new state that can't be proxied", () => {
+    class UserState {
+      constructor(readonly user: { name: string }) {}
+    }
+    const selector = memo((state: UserState) => state.user.name);
+
+    expect(selector(new UserState({ name: "a" }))).toBe("a");
+    expect(selector(new UserState({ name: "b" }))).toBe("b");
+  });
+});
+
+describe("memo selectors with arguments", () => {
+  interface State {
+    todos: Record<number, { title: string; done: boolean }>;
+  }
+
+  const createTodoStore = () =>
+    createStore<State>({
+      todos: {
+        1: { title: "Write docs", done: false },
+        2: { title: "Ship it", done: true },
+      },
+    });
+
+  it("memoFamily should keep a separate cache per argument", () => {
+    const compute = jest.fn((state: State, id: number) => ({
+      ...state.todos[id]!,
+      id,
+    }));
+    const selectTodo = memoFamily(compute);
+    const useStore = createTodoStore();
+    const state = useStore.getState();
+
+    const first = selectTodo(1)(state);
+    const second = selectTodo(2)(state);
+    expect(selectTodo(1)).toBe(selectTodo(1));
+    expect(selectTodo(1)(state)).toBe(first);
+    expect(selectTodo(2)(state)).toBe(second);
+    expect(compute).toHaveBeenCalledTimes(2);
+
+    // Updating one todo only recomputes the selector that read it.
+    const next = { todos: { ...state.todos, 2: { title: "Ship it", done: false } } };
+    expect(selectTodo(1)(next)).toBe(first);
+    expect(selectTodo(2)(next)).toEqual({ id: 2, title: "Ship it", done: false });
+    expect(compute).toHaveBeenCalledTimes(3);
+  });
+
+  it("memoFamily should drop cached selectors on delete and clear", () => {
+    const selectTitle = memoFamily((state: State, id: number) => state.todos[id]!.title);
+    const key = { id: 1 };
+    const selectByKey = memoFamily((state: State, arg: { id: number }) => state.todos[arg.id]!.title);
+
+    const selector = selectTitle(1);
+    selectTitle.delete(1);
+    expect(selectTitle(1)).not.toBe(selector);
+
+    const objectSelector = selectByKey(key);
+    expect(selectByKey(key)).toBe(objectSelector);
+    selectByKey.clear();
+    expect(selectByKey(key)).not.toBe(objectSelector);
+  });
+
+  it("useMemoSelector should keep a separate cache per component", () => {
+    const useStore = createTodoStore();
+    const selectTodo = (state: State, id: number) => ({ id, ...state.todos[id]! });
+    let firstRenders = 0;
+    let secondRenders = 0;
+
+    const first = renderHook(() => {
+      firstRenders++;
+      return useMemoSelector(useStore, selectTodo, 1);
+    });
+    const second = renderHook(() => {
+      secondRenders++;
+      return useMemoSelector(useStore, selectTodo, 2);
+    });
+
+    expect(first.result.current.title).toBe("Write docs");
+    expect(second.result.current.title).toBe("Ship it");
+
+    act(() => {
+      useStore.setState((state) => ({
+        todos: { ...state.todos, 2: { title: "Ship it", done: false } },
+      }));
+    });
+
+    expect(firstRenders).toBe(1);
+    expect(secondRenders).toBe(2);
+    expect(second.result.current.done).toBe(false);
+  });
+
+  it("useMemoSelector should recompute when the argument changes", () => {
+    const useStore = createTodoStore();
+    const { result, rerender } = renderHook(
+      ({ id }) =>
+        useMemoSelector(useStore, (state: State, todoId: number) => state.todos[todoId]!.title, id),
+      { initialProps: { id: 1 } }
+    );
+
+    expect(result.current).toBe("Write docs");
+    rerender({ id: 2 });
+    expect(result.current).toBe("Ship it");
+  });
+});
+
+describe("draft updates", () => {
+  interface Todo {
+    text: string;
+    completed: boolean;
+  }
+  interface State {
+    todos: Todo[];
+    filter: { status: string; tags: string[] };
+    count: number;
+  }
+
+  const initialState: State = {
+    todos: [
+      { text: "Write docs", completed: false },
+      { text: "Ship it", completed: false },
+    ],
+    filter: { status: "all", tags: ["work"] },
+    count: 0,
+  };
+
+  it("produce should copy changed paths and share untouched branches", () => {
+    const next = produce(initialState, (draft) => {
+      draft.todos[0]!.completed = true;
+    });
+
+    expect(next).not.toBe(initialState);
+    expect(next.todos).not.toBe(initialState.todos);
+    expect(next.todos[0]).toEqual({ text: "Write docs", completed: true });
+    expect(next.todos[1]).toBe(initialState.todos[1]);
+    expect(next.filter).toBe(initialState.filter);
+    expect(initialState.todos[0]!.completed).toBe(false);
+  });
+
+  it("produce should return the base state when nothing changes", () => {
+    const next = produce(initialState, (draft) => {
+      draft.count = 0;
+      void draft.filter.tags.length;
+    });
+
+    expect(next).toBe(initialState);
+  });
+
+  it("produce should support array methods, deletes and new values", () => {
+    const next = produce(initialState, (draft) => {
+      draft.todos.push({ text: "Celebrate", completed: false });
+      draft.todos.splice(0, 1);
+      draft.filter.tags = [...draft.filter.tags, "home"];
+      delete (draft as Partial<State>).count;
+    });
+
+    expect(next.todos.map((todo) => todo.text)).toEqual(["Ship it", "Celebrate"]);
+    expect(next.todos[0]).toBe(initialState.todos[1]);
+    expect(next.filter.tags).toEqual(["work", "home"]);
+    expect("count" in next).toBe(false);
+    expect(Array.isArray(next.todos)).toBe(true);
+  });
+
+  it("produce should resolve drafts moved within the state", () => {
+    const next = produce(initialState, (draft) => {
+      draft.todos = [draft.todos[1]!, draft.todos[0]!];
+      draft.todos[1]!.completed = true;
+    });
+
+    expect(next.todos[0]).toBe(initialState.todos[1]);
+    expect(next.todos[1]).toEqual({ text: "Write docs", completed: true });
+  });
+
+  it("produce should work with frozen state", () => {
+    const frozen = Object.freeze({
+      user: Object.freeze({ name: "Ada", tags: Object.freeze(["admin"]) }),
+    });
+
+    const next = produce(frozen, (draft) => {
+      (draft.user as { name: string }).name = "Grace";
+    });
+
+    expect(next.user.name).toBe("Grace");
+    expect(next.user.tags).toBe(frozen.user.tags);
+  });
+
+  it("produce should revoke drafts once the recipe returns", () => {
+    let leaked: Todo | undefined;
+    produce(initialState, (draft) => {
+      leaked = draft.todos[0];
+    });
+
+    expect(() => leaked!.text).toThrow(TypeError);
+  });
+
+  it("update should apply a draft recipe and notify once", () => {
+    const useStore = createStore<State>(initialState);
+    const listener = jest.fn();
+    useStore.onChange(listener);
+
+    useStore.update((draft) => {
+      draft.todos[1]!.completed = true;
+      draft.count++;
+    }, { action: "completeSecond" });
+
+    const state = useStore.getState();
+    expect(state.todos[1]!.completed).toBe(true);
+    expect(state.todos[0]).toBe(initialState.todos[0]);
+    expect(state.count).toBe(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(state, initialState, {
+      action: "completeSecond",
+    });
+  });
+
+  it("update should not notify when the recipe changes nothing", () => {
+    const useStore = createStore<State>(initialState);
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    useStore.update((draft) => {
+      draft.filter.status = "all";
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("update should keep memo selectors on untouched branches cached", () => {
+    const useStore = createStore<State>(initialState);
+    const compute = jest.fn((state: State) => ({ tags: state.filter.tags.join() }));
+    const selector = memo(compute);
+
+    selector(useStore.getState());
+    useStore.update((draft) => {
+      draft.todos[0]!.text = "Write more docs";
+    });
+    selector(useStore.getState());
+
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("patch and patchDeep", () => {
+  interface State {
+    count: number;
+    name: string;
+    settings: {
+      theme: { mode: string; accent: string };
+      tags: string[];
+      nickname?: string;
+    };
+    other: { value: number };
+  }
+
+  const createSettingsStore = () =>
+    createStore<State>({
+      count: 0,
+      name: "initial",
+      settings: {
+        theme: { mode: "light", accent: "blue" },
+        tags: ["a", "b"],
+      },
+      other: { value: 1 },
+    });
+
+  it("patch should merge the given keys into the state", () => {
+    const useStore = createSettingsStore();
+    const before = useStore.getState();
+
+    act(() => {
+      useStore.patch({ count: 1 });
+    });
+
+    const after = useStore.getState();
+    expect(after).toEqual({ ...before, count: 1 });
+    expect(after.settings).toBe(before.settings);
+  });
+
+  it("patch should accept a function of the current state", () => {
+    const useStore = createSettingsStore();
+
+    useStore.patch((state) => ({ count: state.count + 5 }), {
+      action: "addFive",
+    });
+
+    expect(useStore.getState().count).toBe(5);
+  });
+
+  it("patch should not notify when nothing changes", () => {
+    const useStore = createSettingsStore();
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    useStore.patch({ count: 0, name: "initial" });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("patchDeep should merge nested objects and share untouched branches", () => {
+    const useStore = createSettingsStore();
+    const before = useStore.getState();
+
+    useStore.patchDeep({ settings: { theme: { mode: "dark" } } });
+
+    const after = useStore.getState();
+    expect(after.settings.theme).toEqual({ mode: "dark", accent: "blue" });
+    expect(after.settings.tags).toBe(before.settings.tags);
+    expect(after.other).toBe(before.other);
+    expect(after.name).toBe("initial");
+  });
+
+  it("patchDeep should replace arrays instead of merging them", () => {
+    const useStore = createSettingsStore();
+
+    useStore.patchDeep({ settings: { tags: ["c"] } });
+
+    expect(useStore.getState().settings.tags).toEqual(["c"]);
+  });
+
+  it("patchDeep should skip undefined values", () => {
+    const useStore = createSettingsStore();
+    const before = useStore.getState();
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    useStore.patchDeep({ name: undefined, settings: { nickname: undefined } });
+
+    expect(useStore.getState()).toBe(before);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("patchDeep should accept a function of the current state", () => {
+    const useStore = createSettingsStore();
+
+    useStore.patchDeep((state) => ({
+      other: { value: state.other.value + 1 },
+    }));
+
+    expect(useStore.getState().other.value).toBe(2);
+  });
+});
+
+describe("store lifecycle", () => {
+  it("should activate on the first subscriber and deactivate after the last", () => {
+    const cleanup = jest.fn();
+    const onActivate = jest.fn(() => cleanup);
+    const onDeactivate = jest.fn();
+    const useStore = createStore({ count: 0 }, { onActivate, onDeactivate });
+
+    expect(onActivate).not.toHaveBeenCalled();
+
+    const first = renderHook(() => useStore());
+    const second = renderHook(() => useStore((state) => state.count));
+    expect(onActivate).toHaveBeenCalledTimes(1);
+    expect(onActivate).toHaveBeenCalledWith(useStore);
+
+    first.unmount();
+    expect(cleanup).not.toHaveBeenCalled();
+
+    second.unmount();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(onDeactivate).toHaveBeenCalledTimes(1);
+    expect(onDeactivate).toHaveBeenCalledWith(useStore);
+  });
+
+  it("should activate again after being deactivated", () => {
+    const onActivate = jest.fn();
+    const useStore = createStore({ count: 0 }, { onActivate });
+
+    useStore.subscribe(jest.fn())();
+    const unsubscribe = useStore.onChange(jest.fn());
+
+    expect(onActivate).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it("should let onActivate update the store for its subscribers", () => {
+    jest.useFakeTimers();
+    const useStore = createStore(
+      { ticks: 0 },
+      {
+        onActivate: (store) => {
+          const interval = setInterval(() => {
+            store.setState((state) => ({ ticks: state.ticks + 1 }));
+          }, 1000);
+          return () => clearInterval(interval);
+        },
+      }
+    );
+
+    try {
+      const { result, unmount } = renderHook(() => useStore((s) => s.ticks));
+      act(() => {
+        jest.advanceTimersByTime(3000);
+      });
+      expect(result.current).toBe(3);
+
+      unmount();
+      jest.advanceTimersByTime(3000);
+      expect(useStore.getState().ticks).toBe(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should ignore repeated unsubscribe calls", () => {
+    const onDeactivate = jest.fn();
+    const useStore = createStore({ count: 0 }, { onDeactivate });
+
+    const unsubscribeFirst = useStore.subscribe(jest.fn());
+    const unsubscribeSecond = useStore.subscribe(jest.fn());
+    unsubscribeFirst();
+    unsubscribeFirst();
+    expect(onDeactivate).not.toHaveBeenCalled();
+
+    unsubscribeSecond();
+    expect(onDeactivate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should deactivate when the store is destroyed", () => {
+    const cleanup = jest.fn();
+    const useStore = createStore({ count: 0 }, { onActivate: () => cleanup });
+
+    useStore.subscribe(jest.fn());
+    useStore.destroy();
+
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("destroy and reset", () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+    uninstallMockDevtoolsExtension();
+  });
+
+  it("should mark the store as destroyed and ignore later use", () => {
+    const useStore = createStore({ count: 0 });
+    const listener = jest.fn();
+
+    expect(useStore.destroyed).toBe(false);
+    useStore.destroy();
+    expect(useStore.destroyed).toBe(true);
+
+    useStore.setState({ count: 1 });
+    const unsubscribe = useStore.subscribe(listener);
+    useStore.onChange(listener);
+    useStore.patch({ count: 2 });
+
+    expect(useStore.getState().count).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+    expect(() => unsubscribe()).not.toThrow();
+    expect(warn).toHaveBeenCalledWith(
+      "[react-foam] setState() was called on a destroyed store and was ignored."
+    );
+    expect(warn).toHaveBeenCalledWith(
+      "[react-foam] subscribe() was called on a destroyed store and was ignored."
+    );
+  });
+
+  it("should not warn in production", () => {
+    const previousEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    try {
+      const useStore = createStore({ count: 0 });
+      useStore.destroy();
+      useStore.setState({ count: 1 });
+    } finally {
+      process.env.NODE_ENV = previousEnv;
+    }
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("should run onDestroy callbacks once", () => {
+    const useStore = createStore({ count: 0 });
+    const callback = jest.fn();
+    const removed = jest.fn();
+
+    useStore.onDestroy(callback);
+    useStore.onDestroy(removed)();
+    useStore.destroy();
+    useStore.destroy();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(removed).not.toHaveBeenCalled();
+
+    const late = jest.fn();
+    useStore.onDestroy(late);
+    expect(late).toHaveBeenCalledTimes(1);
+  });
+
+  it("should release plugins when the store is destroyed", () => {
+    const storage: StorageAdapter = {
+      getItem: () => null,
+      setItem: jest.fn(),
+      removeItem: () => {},
+    };
+    const extension = installMockDevtoolsExtension();
+    const useStore = createStore({ count: 0 });
+    persist(useStore, { key: "counter", storage });
+    const history = withHistory(useStore);
+    devtools(useStore);
+    const [connection] = extension.connections;
+
+    useStore.destroy();
+
+    expect(connection!.subscribed).toBe(false);
+    expect(history.canUndo).toBe(false);
+    expect(storage.setItem).not.toHaveBeenCalled();
+  });
+
+  it("reset should restore the initial state", () => {
     const useStore = createStore({ count: 0, name: "initial" });
-    const { result } = renderHook(() => useStore());
+    const listener = jest.fn();
+    useStore.onChange(listener);
+
+    useStore.setState({ count: 5, name: "changed" });
+    useStore.reset();
+
+    expect(useStore.getState()).toEqual({ count: 0, name: "initial" });
+    expect(listener).toHaveBeenLastCalledWith(
+      { count: 0, name: "initial" },
+      { count: 5, name: "changed" },
+      { action: "reset" }
+    );
+    expect(useStore.destroyed).toBe(false);
+  });
+});
+
+describe("store registry", () => {
+  afterEach(() => {
+    uninstallMockDevtoolsExtension();
+  });
+
+  it("should look up stores by name until they are destroyed", () => {
+    const useStore = createStore({ count: 0 }, { name: "registry/counter" });
+
+    expect(getStore("registry/counter")).toBe(useStore);
+    expect(getStores()).toContain(useStore);
+
+    useStore.destroy();
+    expect(getStore("registry/counter")).toBeUndefined();
+    expect(getStores()).not.toContain(useStore);
+  });
+
+  it("should warn when a name is reused and return the newer store", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const first = createStore({ count: 0 }, { name: "registry/duplicate" });
+    const second = createStore({ count: 1 }, { name: "registry/duplicate" });
+
+    expect(warn).toHaveBeenCalledWith(
+      '[react-foam] A store named "registry/duplicate" already exists and was replaced.'
+    );
+    expect(getStore("registry/duplicate")).toBe(second);
+
+    first.destroy();
+    expect(getStore("registry/duplicate")).toBe(second);
+    second.destroy();
+    warn.mockRestore();
+  });
+
+  it("should not register request- or Provider-scoped stores", () => {
+    const createRequestStore = createStoreFactory(() => ({ count: 0 }), {
+      name: "registry/request",
+    });
+    const store = createRequestStore();
+
+    expect(getStores()).not.toContain(store);
+    expect(getStore("registry/request")).toBeUndefined();
+  });
+
+  it("resetAllStores should reset every store and notify once per store", () => {
+    const useCounter = createStore({ count: 0 });
+    const useUser = createStore(
+      { name: "guest" },
+      (set) => ({ login: (name: string) => set({ name }) })
+    );
+    const listener = jest.fn();
+    useCounter.subscribe(listener);
+
+    batch(() => {
+      useCounter.setState({ count: 3 });
+      useUser.actions.login("Ada");
+    });
+    listener.mockClear();
+
+    resetAllStores();
+
+    expect(useCounter.getState()).toEqual({ count: 0 });
+    expect(useUser.getState()).toEqual({ name: "guest" });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should use the registered name in devtools by default", () => {
+    const extension = installMockDevtoolsExtension();
+    const useStore = createStore({ count: 0 }, { name: "registry/devtools" });
+
+    devtools(useStore);
+
+    expect(extension.connections[0]!.name).toBe("registry/devtools");
+    useStore.destroy();
+  });
+});
+
+describe("syncTabs", () => {
+  // A minimal in-memory BroadcastChannel. Like the real one, it delivers
+  // messages to every other channel with the same name, but not the sender.
+  class FakeBroadcastChannel {
+    static channels = new Set<FakeBroadcastChannel>();
+    onmessage: ((event: { data: unknown }) => void) | null = null;
+
+    constructor(readonly name: string) {
+      FakeBroadcastChannel.channels.add(this);
+    }
+
+    postMessage(data: unknown) {
+      const cloned = JSON.parse(JSON.stringify(data));
+      FakeBroadcastChannel.channels.forEach((channel) => {
+        if (channel !== this && channel.name === this.name) {
+          channel.onmessage?.({ data: cloned });
+        }
+      });
+    }
+
+    close() {
+      FakeBroadcastChannel.channels.delete(this);
+    }
+  }
+
+  interface CartState {
+    items: string[];
+    open: boolean;
+  }
+
+  const globals = globalThis as { BroadcastChannel?: unknown };
+
+  describe("with BroadcastChannel", () => {
+    beforeEach(() => {
+      globals.BroadcastChannel = FakeBroadcastChannel;
+    });
+
+    afterEach(() => {
+      delete globals.BroadcastChannel;
+      FakeBroadcastChannel.channels.clear();
+    });
+
+    it("should apply updates from other tabs without echoing them", () => {
+      const tabA = createStore<CartState>({ items: [], open: false });
+      const tabB = createStore<CartState>({ items: [], open: false });
+      const syncA = syncTabs(tabA, { channel: "cart" });
+      syncTabs(tabB, { channel: "cart" });
+      const postMessage = jest.spyOn(FakeBroadcastChannel.prototype, "postMessage");
+
+      tabA.setState({ items: ["apple"], open: false });
+
+      expect(syncA.transport).toBe("broadcast-channel");
+      expect(tabB.getState()).toEqual({ items: ["apple"], open: false });
+      // Only tab A posted; tab B applied the update without sending it back.
+      expect(postMessage).toHaveBeenCalledTimes(1);
+      postMessage.mockRestore();
+    });
+
+    it("should only share the partialized state", () => {
+      const options = {
+        channel: "cart-items",
+        partialize: (state: CartState) => ({ items: state.items }),
+      };
+      const tabA = createStore<CartState>({ items: [], open: false });
+      const tabB = createStore<CartState>({ items: [], open: false });
+      syncTabs(tabA, options);
+      syncTabs(tabB, options);
+      const postMessage = jest.spyOn(FakeBroadcastChannel.prototype, "postMessage");
+
+      tabA.setState({ items: ["apple"], open: true });
+      tabA.patch({ open: false });
+
+      expect(tabB.getState()).toEqual({ items: ["apple"], open: false });
+      expect(postMessage).toHaveBeenCalledTimes(1);
+      postMessage.mockRestore();
+    });
+
+    it("should combine remote state with the conflict option", () => {
+      const tabA = createStore<CartState>({ items: ["apple"], open: false });
+      const tabB = createStore<CartState>({ items: ["pear"], open: true });
+      syncTabs(tabA, { channel: "cart-merge" });
+      syncTabs(tabB, {
+        channel: "cart-merge",
+        conflict: (local, remote) => ({
+          ...local,
+          items: Array.from(new Set([...local.items, ...remote.items])),
+        }),
+      });
+
+      tabA.setState({ items: ["apple", "plum"], open: false });
+
+      expect(tabB.getState()).toEqual({
+        items: ["pear", "apple", "plum"],
+        open: true,
+      });
+    });
+
+    it("should stop syncing when destroyed", () => {
+      const tabA = createStore<CartState>({ items: [], open: false });
+      const tabB = createStore<CartState>({ items: [], open: false });
+      syncTabs(tabA, { channel: "cart-destroy" });
+      syncTabs(tabB, { channel: "cart-destroy" }).destroy();
+
+      tabA.setState({ items: ["apple"], open: false });
+
+      expect(tabB.getState().items).toEqual([]);
+      expect(FakeBroadcastChannel.channels.size).toBe(1);
+    });
+  });
+
+  describe("with the storage fallback", () => {
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    it("should write local updates to localStorage", () => {
+      const useStore = createStore<CartState>({ items: [], open: false });
+      const sync = syncTabs(useStore, { channel: "cart-storage" });
+
+      useStore.setState({ items: ["apple"], open: false });
+
+      expect(sync.transport).toBe("storage");
+      const stored = JSON.parse(localStorage.getItem("react-foam:cart-storage")!);
+      expect(stored.state).toEqual({ items: ["apple"], open: false });
+      sync.destroy();
+    });
+
+    it("should apply storage events from other tabs without echoing them", () => {
+      const useStore = createStore<CartState>({ items: [], open: false });
+      const sync = syncTabs(useStore, { channel: "cart-events" });
+      const setItem = jest.spyOn(Storage.prototype, "setItem");
+
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "react-foam:cart-events",
+          newValue: JSON.stringify({ state: { items: ["pear"] }, sent: 1 }),
+        })
+      );
+
+      expect(useStore.getState()).toEqual({ items: ["pear"], open: false });
+      expect(setItem).not.toHaveBeenCalled();
+      setItem.mockRestore();
+      sync.destroy();
+    });
+  });
+});
+
+describe("asyncAction", () => {
+  // A promise that can be settled from the outside.
+  const deferred = <T,>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  it("should track the status of a successful call", async () => {
+    const useStore = createStore({ todos: [] as string[] });
+    const request = deferred<string[]>();
+    const loadTodos = asyncAction(useStore, async (_signal, filter: string) => {
+      const todos = await request.promise;
+      useStore.patch({ todos: todos.filter((todo) => todo.startsWith(filter)) });
+      return todos.length;
+    });
+
+    expect(loadTodos.getStatus().status).toBe("idle");
+
+    const call = loadTodos("a");
+    expect(loadTodos.getStatus().status).toBe("pending");
+
+    request.resolve(["apple", "pear", "avocado"]);
+    await expect(call).resolves.toBe(3);
+    expect(loadTodos.getStatus()).toEqual({
+      status: "success",
+      data: 3,
+      error: undefined,
+    });
+    expect(useStore.getState().todos).toEqual(["apple", "avocado"]);
+  });
+
+  it("should track errors and reject the call", async () => {
+    const useStore = createStore({ count: 0 });
+    const failure = new Error("Network error");
+    const save = asyncAction(useStore, async () => {
+      throw failure;
+    });
+
+    await expect(save()).rejects.toBe(failure);
+    expect(save.getStatus()).toEqual({
+      status: "error",
+      data: undefined,
+      error: failure,
+    });
+  });
+
+  it("should only let the latest call update the status", async () => {
+    const useStore = createStore({ count: 0 });
+    const first = deferred<number>();
+    const second = deferred<number>();
+    const requests = [first, second];
+    const load = asyncAction(useStore, () => requests.shift()!.promise);
+
+    const firstCall = load();
+    const secondCall = load();
+    second.resolve(2);
+    await secondCall;
+    first.resolve(1);
+    await firstCall;
+
+    expect(load.getStatus().data).toBe(2);
+  });
+
+  it("should abort pending calls with latestOnly", async () => {
+    const useStore = createStore({ results: [] as string[] });
+    const signals: AbortSignal[] = [];
+    const requests = [deferred<string[]>(), deferred<string[]>()];
+    const search = asyncAction(
+      useStore,
+      (signal, query: string) => {
+        signals.push(signal);
+        return requests[signals.length - 1]!.promise.then((results) =>
+          results.filter((result) => result.startsWith(query))
+        );
+      },
+      { latestOnly: true }
+    );
+
+    const firstCall = search("a");
+    const secondCall = search("b");
+
+    expect(signals[0]!.aborted).toBe(true);
+    expect(signals[1]!.aborted).toBe(false);
+    await expect(firstCall).rejects.toMatchObject({ name: "AbortError" });
+
+    requests[1]!.resolve(["banana", "apple"]);
+    await expect(secondCall).resolves.toEqual(["banana"]);
+    expect(search.getStatus().status).toBe("success");
+  });
+
+  it("should return to idle when the latest call is aborted", async () => {
+    const useStore = createStore({ count: 0 });
+    const load = asyncAction(useStore, () => new Promise<number>(() => {}));
+
+    const call = load();
+    load.abort();
+
+    await expect(call).rejects.toMatchObject({ name: "AbortError" });
+    expect(load.getStatus().status).toBe("idle");
+  });
+
+  it("should abort pending calls when the store is destroyed", async () => {
+    const useStore = createStore({ count: 0 });
+    let received: AbortSignal | undefined;
+    const load = asyncAction(useStore, (signal) => {
+      received = signal;
+      return new Promise<number>(() => {});
+    });
+
+    const call = load();
+    useStore.destroy();
+
+    expect(received!.aborted).toBe(true);
+    await expect(call).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("useActionStatus should re-render with the status", async () => {
+    const useStore = createStore({ count: 0 });
+    const request = deferred<number>();
+    const load = asyncAction(useStore, () => request.promise);
+    const { result } = renderHook(() => useActionStatus(load));
+
+    expect(result.current.status).toBe("idle");
+
+    let call: Promise<number>;
+    act(() => {
+      call = load();
+    });
+    expect(result.current.status).toBe("pending");
+
+    await act(async () => {
+      request.resolve(7);
+      await call;
+    });
+    expect(result.current).toEqual({ status: "success", data: 7, error: undefined });
+  });
+});
+
+describe("resources", () => {
+  interface TodoState {
+    todos: string[];
+    filter: string;
+  }
+
+  class ErrorBoundary extends Component<
+    { children?: ReactNode },
+    { error: Error | null }
+  > {
+    state = { error: null as Error | null };
+
+    static getDerivedStateFromError(error: Error) {
+      return { error };
+    }
+
+    render() {
+      return this.state.error
+        ? `error: ${this.state.error.message}`
+        : this.props.children;
+    }
+  }
+
+  const TodoCount = ({ resource }: { resource: Resource<string[]> }) =>
+    `todos: ${useResource(resource).join(", ")}`;
+
+  const renderResource = (resource: Resource<string[]>) =>
+    render(
+      createElement(
+        ErrorBoundary,
+        null,
+        createElement(
+          Suspense,
+          { fallback: "loading" },
+          createElement(TodoCount, { resource })
+        )
+      )
+    );
+
+  const flush = () =>
+    act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+  it("should suspend until the value is loaded into the store", async () => {
+    const useStore = createStore<TodoState>({ todos: [], filter: "all" });
+    const fetcher = jest.fn(async () => ["apple", "pear"]);
+    const resource = createResource(useStore, "todos", fetcher);
+
+    const { container } = renderResource(resource);
+    expect(container.textContent).toBe("loading");
+
+    await flush();
+    expect(container.textContent).toBe("todos: apple, pear");
+    expect(useStore.getState().todos).toEqual(["apple", "pear"]);
+    expect(resource.getStatus().status).toBe("success");
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fetch once for several components", async () => {
+    const useStore = createStore<TodoState>({ todos: [], filter: "all" });
+    const fetcher = jest.fn(async () => ["apple"]);
+    const resource = createResource(useStore, "todos", fetcher);
+
+    renderResource(resource);
+    renderResource(resource);
+    await flush();
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("should re-render when the loaded value changes in the store", async () => {
+    const useStore = createStore<TodoState>({ todos: [], filter: "all" });
+    const resource = createResource(useStore, "todos", async () => ["apple"]);
+
+    const { container } = renderResource(resource);
+    await flush();
+
+    act(() => {
+      useStore.patch({ todos: ["apple", "plum"] });
+    });
+    expect(container.textContent).toBe("todos: apple, plum");
+  });
+
+  it("should throw fetch errors to the nearest error boundary", async () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    const useStore = createStore<TodoState>({ todos: [], filter: "all" });
+    const resource = createResource(useStore, "todos", async () => {
+      throw new Error("Network error");
+    });
+
+    const { container } = renderResource(resource);
+    await flush();
+
+    expect(container.textContent).toBe("error: Network error");
+    expect(resource.getStatus()).toEqual({
+      status: "error",
+      error: new Error("Network error"),
+    });
+    consoleError.mockRestore();
+  });
+
+  it("should keep showing the current value while refetching", async () => {
+    const useStore = createStore<TodoState>({ todos: [], filter: "all" });
+    const responses = [["apple"], ["apple", "pear"]];
+    const resource = createResource(useStore, "todos", async () => responses.shift()!);
+
+    const { container } = renderResource(resource);
+    await flush();
+
+    let refetched: Promise<string[]>;
+    act(() => {
+      refetched = resource.refetch();
+    });
+    expect(resource.getStatus().status).toBe("pending");
+    expect(container.textContent).toBe("todos: apple");
+
+    await act(async () => {
+      await refetched;
+    });
+    expect(container.textContent).toBe("todos: apple, pear");
+  });
+
+  it("should suspend and fetch again after being invalidated", async () => {
+    const useStore = createStore<TodoState>({ todos: [], filter: "all" });
+    const responses = [["apple"], ["pear"]];
+    const fetcher = jest.fn(async () => responses.shift()!);
+    const resource = createResource(useStore, "todos", fetcher);
+
+    const { container } = renderResource(resource);
+    await flush();
+
+    act(() => {
+      resource.invalidate();
+    });
+    expect(container.textContent).toBe("loading");
+
+    await flush();
+    expect(container.textContent).toBe("todos: pear");
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("should abort the previous fetch when refetching", async () => {
+    const useStore = createStore<TodoState>({ todos: [], filter: "all" });
+    const signals: AbortSignal[] = [];
+    const resource = createResource(useStore, "todos", async (signal) => {
+      signals.push(signal);
+      return [`call ${signals.length}`];
+    });
+
+    const first = resource.load();
+    const second = resource.refetch();
+
+    expect(signals[0]!.aborted).toBe(true);
+    await expect(second).resolves.toEqual(["call 2"]);
+    await first;
+    expect(useStore.getState().todos).toEqual(["call 2"]);
+  });
+});
+
+describe("query cache", () => {
+  const flush = () =>
+    act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+  it("should fetch a query and expose its status", async () => {
+    const client = createQueryClient();
+    const queryFn = jest.fn(async () => ["apple"]);
+    const { result } = renderHook(() =>
+      useQuery(client, { queryKey: ["todos"], queryFn })
+    );
+
+    expect(result.current.status).toBe("pending");
+    expect(result.current.isFetching).toBe(true);
+
+    await flush();
+    expect(result.current.status).toBe("success");
+    expect(result.current.data).toEqual(["apple"]);
+    expect(result.current.isFetching).toBe(false);
+    expect(client.getQueryData(["todos"])).toEqual(["apple"]);
+  });
+
+  it("should deduplicate fetches of the same key", async () => {
+    const client = createQueryClient();
+    const queryFn = jest.fn(async () => 1);
+
+    renderHook(() => useQuery(client, { queryKey: ["count", { a: 1, b: 2 }], queryFn }));
+    renderHook(() => useQuery(client, { queryKey: ["count", { b: 2, a: 1 }], queryFn }));
+    await flush();
+
+    expect(queryFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should show stale data while refetching it in the background", async () => {
+    const client = createQueryClient();
+    client.setQueryData(["user"], { name: "Ada" });
+    let resolve!: (value: { name: string }) => void;
+    const queryFn = () => new Promise<{ name: string }>((res) => { resolve = res; });
+
+    const { result } = renderHook(() => useQuery(client, { queryKey: ["user"], queryFn }));
+
+    expect(result.current.data).toEqual({ name: "Ada" });
+    expect(result.current.isFetching).toBe(true);
+
+    await act(async () => {
+      resolve({ name: "Grace" });
+    });
+    expect(result.current.data).toEqual({ name: "Grace" });
+  });
+
+  it("should not refetch fresh data", async () => {
+    const client = createQueryClient({ staleTime: 60000 });
+    const queryFn = jest.fn(async () => "data");
+
+    await client.fetchQuery({ queryKey: ["fresh"], queryFn });
+    await client.fetchQuery({ queryKey: ["fresh"], queryFn });
+    renderHook(() => useQuery(client, { queryKey: ["fresh"], queryFn }));
+    await flush();
+
+    expect(queryFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not fetch disabled queries", async () => {
+    const client = createQueryClient();
+    const queryFn = jest.fn(async () => "data");
+
+    const { result } = renderHook(() =>
+      useQuery(client, { queryKey: ["disabled"], queryFn, enabled: false })
+    );
+    await flush();
+
+    expect(queryFn).not.toHaveBeenCalled();
+    expect(result.current.status).toBe("pending");
+  });
+
+  it("should report fetch errors", async () => {
+    const client = createQueryClient();
+    const failure = new Error("Network error");
+    const { result } = renderHook(() =>
+      useQuery(client, {
+        queryKey: ["failing"],
+        queryFn: async () => {
+          throw failure;
+        },
+      })
+    );
+
+    await flush();
+    expect(result.current.status).toBe("error");
+    expect(result.current.error).toBe(failure);
+  });
+
+  it("should garbage collect queries once unused for cacheTime", async () => {
+    jest.useFakeTimers();
+    try {
+      const client = createQueryClient({ cacheTime: 1000, staleTime: Infinity });
+      client.setQueryData(["gc"], "cached");
+      const queryFn = jest.fn(async () => "fetched");
+
+      const first = renderHook(() => useQuery(client, { queryKey: ["gc"], queryFn }));
+      first.unmount();
+      jest.advanceTimersByTime(500);
+
+      // Used again before `cacheTime` passed, so it's kept.
+      const second = renderHook(() => useQuery(client, { queryKey: ["gc"], queryFn }));
+      jest.advanceTimersByTime(5000);
+      expect(client.getQueryData(["gc"])).toBe("cached");
+
+      second.unmount();
+      jest.advanceTimersByTime(1000);
+      expect(client.getQueryData(["gc"])).toBeUndefined();
+      expect(queryFn).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should collect unused queries after their own cacheTime", async () => {
+    jest.useFakeTimers();
+    try {
+      const client = createQueryClient({ cacheTime: 1000 });
+      await client.fetchQuery({
+        queryKey: ["long"],
+        queryFn: async () => "long",
+        cacheTime: 60_000,
+      });
+      await client.fetchQuery({
+        queryKey: ["short"],
+        queryFn: async () => "short",
+        cacheTime: 0,
+      });
+
+      jest.advanceTimersByTime(1000);
+      expect(client.getQueryData(["long"])).toBe("long");
+      expect(client.getQueryData(["short"])).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should reset and refetch queries in use when cleared", async () => {
+    const client = createQueryClient({ staleTime: Infinity });
+    let count = 0;
+    const queryFn = jest.fn(async () => ++count);
+    const { result } = renderHook(() =>
+      useQuery(client, { queryKey: ["count"], queryFn })
+    );
+    await flush();
+    expect(result.current.data).toBe(1);
+
+    act(() => client.clear());
+    expect(result.current.status).toBe("pending");
+
+    await flush();
+    expect(result.current.data).toBe(2);
+    expect(client.getQueryData(["count"])).toBe(2);
+
+    await act(() => client.invalidateQueries());
+    expect(result.current.data).toBe(3);
+  });
+
+  it("should not create cache entries or timers while rendering", () => {
+    jest.useFakeTimers();
+    try {
+      const client = createQueryClient();
+      const queryFn = jest.fn(async () => "fetched");
+      const Status = () =>
+        useQuery(client, { queryKey: ["ssr"], queryFn }).status;
+
+      expect(renderToString(createElement(Status))).toBe("pending");
+      expect(jest.getTimerCount()).toBe(0);
+      expect(queryFn).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should refetch queries in use when invalidated by key prefix", async () => {
+    const client = createQueryClient({ staleTime: Infinity });
+    const todosFn = jest.fn(async () => "todos");
+    const userFn = jest.fn(async () => "user");
+
+    renderHook(() => useQuery(client, { queryKey: ["todos", 1], queryFn: todosFn }));
+    renderHook(() => useQuery(client, { queryKey: ["user"], queryFn: userFn }));
+    await flush();
+
+    await act(async () => {
+      await client.invalidateQueries(["todos"]);
+    });
+
+    expect(todosFn).toHaveBeenCalledTimes(2);
+    expect(userFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("refetch should fetch even when the data is fresh", async () => {
+    const client = createQueryClient({ staleTime: Infinity });
+    let count = 0;
+    const { result } = renderHook(() =>
+      useQuery(client, { queryKey: ["counter"], queryFn: async () => ++count })
+    );
+    await flush();
+
+    await act(async () => {
+      await result.current.refetch();
+    });
+    expect(result.current.data).toBe(2);
+  });
+
+  it("useMutation should track its status and invalidate queries", async () => {
+    const client = createQueryClient({ staleTime: Infinity });
+    const todos = ["apple"];
+    const queryFn = jest.fn(async () => [...todos]);
+    const onSuccess = jest.fn();
+
+    const query = renderHook(() => useQuery(client, { queryKey: ["todos"], queryFn }));
+    const mutation = renderHook(() =>
+      useMutation(client, {
+        mutationFn: async (text: string) => {
+          todos.push(text);
+          return todos.length;
+        },
+        onSuccess,
+        invalidates: [["todos"]],
+      })
+    );
+    await flush();
+    expect(mutation.result.current.status).toBe("idle");
+
+    await act(async () => {
+      await mutation.result.current.mutateAsync("pear");
+    });
+    await flush();
+
+    expect(mutation.result.current).toMatchObject({ status: "success", data: 2 });
+    expect(onSuccess).toHaveBeenCalledWith(2, "pear");
+    expect(query.result.current.data).toEqual(["apple", "pear"]);
+
+    act(() => {
+      mutation.result.current.reset();
+    });
+    expect(mutation.result.current.status).toBe("idle");
+  });
+
+  it("useMutation should report errors without throwing from mutate", async () => {
+    const client = createQueryClient();
+    const failure = new Error("Rejected");
+    const { result } = renderHook(() =>
+      useMutation(client, {
+        mutationFn: async () => {
+          throw failure;
+        },
+      })
+    );
+
+    await act(async () => {
+      result.current.mutate(undefined);
+    });
+
+    expect(result.current.status).toBe("error");
+    expect(result.current.error).toBe(failure);
+  });
+});
+
+describe("optimistic updates", () => {
+  interface Todo {
+    id: number;
+    text: string;
+    done: boolean;
+  }
+  interface State {
+    todos: Todo[];
+    count: number;
+  }
+
+  const toggle = (id: number) => (state: State): State => ({
+    ...state,
+    todos: state.todos.map((todo) =>
+      todo.id === id ? { ...todo, done: !todo.done } : todo
+    ),
+  });
+
+  const deferred = <T,>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  const createTodoStore = () =>
+    createStore<State>({
+      todos: [
+        { id: 1, text: "Write docs", done: false },
+        { id: 2, text: "Ship it", done: false },
+      ],
+      count: 0,
+    });
+
+  it("should apply the update right away and keep it once committed", async () => {
+    const useStore = createTodoStore();
+    const server = deferred<string>();
+    const listener = jest.fn();
+    useStore.onChange(listener);
+
+    const result = optimistic(useStore, toggle(1), server.promise);
+    expect(useStore.getState().todos[0]!.done).toBe(true);
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.anything(),
+      { action: "optimistic" }
+    );
+
+    server.resolve("ok");
+    await expect(result).resolves.toBe("ok");
+    expect(useStore.getState().todos[0]!.done).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should roll back when the commit fails", async () => {
+    const useStore = createTodoStore();
+    const before = useStore.getState();
+    const failure = new Error("Server error");
+
+    const result = optimistic(useStore, toggle(1), () => Promise.reject(failure));
+
+    await expect(result).rejects.toBe(failure);
+    expect(useStore.getState()).toEqual(before);
+  });
+
+  it("should keep changes made while the update was pending", async () => {
+    const useStore = createTodoStore();
+    const server = deferred<void>();
+
+    const result = optimistic(useStore, toggle(1), server.promise);
+    useStore.update((draft) => {
+      draft.todos.push({ id: 3, text: "Celebrate", done: false });
+      draft.todos[1]!.text = "Ship it today";
+      draft.count++;
+    });
+
+    server.reject(new Error("Server error"));
+    await expect(result).rejects.toThrow("Server error");
+
+    expect(useStore.getState()).toEqual({
+      todos: [
+        { id: 1, text: "Write docs", done: false },
+        { id: 2, text: "Ship it today", done: false },
+        { id: 3, text: "Celebrate", done: false },
+      ],
+      count: 1,
+    });
+  });
+
+  it("should re-apply pending updates on top of conflicting changes", async () => {
+    const useStore = createTodoStore();
+    const server = deferred<void>();
+
+    const result = optimistic(
+      useStore,
+      (state) => ({ ...state, count: state.count + 10 }),
+      server.promise
+    );
+    // An update based on the confirmed state, e.g. from a server push.
+    useStore.patch({ count: 1 });
+    expect(useStore.getState().count).toBe(11);
+
+    server.reject(new Error("Server error"));
+    await expect(result).rejects.toThrow();
+    expect(useStore.getState().count).toBe(1);
+  });
+
+  it("should only roll back the layer that failed", async () => {
+    const useStore = createTodoStore();
+    const first = deferred<void>();
+    const second = deferred<void>();
+
+    const firstResult = optimistic(useStore, toggle(1), first.promise);
+    const secondResult = optimistic(useStore, toggle(2), second.promise);
+
+    first.reject(new Error("Server error"));
+    await expect(firstResult).rejects.toThrow();
+    expect(useStore.getState().todos.map((todo) => todo.done)).toEqual([false, true]);
+
+    second.resolve();
+    await secondResult;
+    expect(useStore.getState().todos.map((todo) => todo.done)).toEqual([false, true]);
+  });
+
+  it("should reject without registering a layer when apply throws", async () => {
+    const useStore = createTodoStore();
+    const commit = jest.fn(() => Promise.resolve());
+
+    const result = optimistic(
+      useStore,
+      () => {
+        throw new Error("boom");
+      },
+      commit
+    );
+
+    await expect(result).rejects.toThrow("boom");
+    expect(commit).not.toHaveBeenCalled();
+    expect(() =>
+      useStore.setState((state) => ({ ...state, count: 1 }))
+    ).not.toThrow();
+    expect(useStore.getState().count).toBe(1);
+  });
+
+  describe("with concurrent list edits", () => {
+    const createListStore = () => createStore({ items: ["a", "b", "c"] });
+    const append =
+      (item: string) =>
+      (state: { items: string[] }) => ({ items: [...state.items, item] });
+    const remove =
+      (item: string) =>
+      (state: { items: string[] }) => ({
+        items: state.items.filter((current) => current !== item),
+      });
+
+    it("should restore a removed item without losing appended ones", async () => {
+      const useStore = createListStore();
+      const server = deferred<void>();
+
+      const result = optimistic(useStore, remove("a"), server.promise);
+      useStore.setState(append("d"));
+      expect(useStore.getState().items).toEqual(["b", "c", "d"]);
+
+      server.reject(new Error("Server error"));
+      await expect(result).rejects.toThrow();
+      expect(useStore.getState().items).toEqual(["a", "b", "c", "d"]);
+    });
+
+    it("should not duplicate an appended item when the list is filtered", async () => {
+      const useStore = createListStore();
+      const server = deferred<void>();
+
+      const result = optimistic(useStore, append("opt"), server.promise);
+      useStore.setState(remove("a"));
+      expect(useStore.getState().items).toEqual(["b", "c", "opt"]);
+
+      server.resolve();
+      await result;
+      expect(useStore.getState().items).toEqual(["b", "c", "opt"]);
+    });
+
+    it("should merge whole-state updates into the confirmed state", async () => {
+      const useStore = createStore({ items: ["a", "b"], title: "List" });
+      const server = deferred<void>();
+
+      const result = optimistic(
+        useStore,
+        (state) => ({ ...state, items: [...state.items, "opt"] }),
+        server.promise
+      );
+      useStore.setState({ ...useStore.getState(), title: "Groceries" });
+      expect(useStore.getState()).toEqual({
+        items: ["a", "b", "opt"],
+        title: "Groceries",
+      });
+
+      server.reject(new Error("Server error"));
+      await expect(result).rejects.toThrow();
+      expect(useStore.getState()).toEqual({ items: ["a", "b"], title: "Groceries" });
+    });
+  });
+});
+
+describe("transactions", () => {
+  interface Account {
+    balance: number;
+    history: string[];
+  }
+
+  const createAccountStore = () =>
+    createStore<Account>({ balance: 100, history: [] });
+
+  it("should commit every update with a single notification", () => {
+    const useStore = createAccountStore();
+    const listener = jest.fn();
+    useStore.onChange(listener);
+
+    const result = useStore.transaction((tx) => {
+      tx.set((state) => ({ ...state, balance: state.balance - 30 }));
+      tx.set((state) => ({ ...state, history: [...state.history, "withdraw 30"] }));
+      return tx.get().balance;
+    });
+
+    expect(result).toBe(70);
+    expect(useStore.getState()).toEqual({ balance: 70, history: ["withdraw 30"] });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      { balance: 70, history: ["withdraw 30"] },
+      { balance: 100, history: [] },
+      { action: "transaction" }
+    );
+  });
+
+  it("should not notify listeners of intermediate states", () => {
+    const useStore = createAccountStore();
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    useStore.transaction((tx) => {
+      tx.set({ balance: 0, history: [] });
+      expect(listener).not.toHaveBeenCalled();
+      expect(useStore.getState().balance).toBe(0);
+    }, { action: "drain" });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(useStore.getState().balance).toBe(0);
+  });
+
+  it("should make store updates inside the callback on the draft", () => {
+    const useStore = createStore(
+      { balance: 100, history: [] as string[] },
+      (set) => ({
+        log: (entry: string) =>
+          set((state) => ({ ...state, history: [...state.history, entry] })),
+      })
+    );
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    useStore.transaction((tx) => {
+      tx.set((state) => ({ ...state, balance: 50 }));
+      useStore.actions.log("withdraw 50");
+      useStore.patch({ balance: tx.get().balance - 10 });
+    });
+
+    expect(useStore.getState()).toEqual({ balance: 40, history: ["withdraw 50"] });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should commit nested transactions into the outer one", () => {
+    const useStore = createStore({ a: 0, b: 0 });
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    useStore.transaction((tx) => {
+      tx.set((state) => ({ ...state, a: 1 }));
+      useStore.transaction((inner) => {
+        inner.set((state) => ({ ...state, b: 1 }));
+      });
+      useStore.transaction((inner) => {
+        inner.set((state) => ({ ...state, a: 2 }));
+        inner.abort();
+      });
+      expect(tx.get()).toEqual({ a: 1, b: 1 });
+    });
+
+    expect(useStore.getState()).toEqual({ a: 1, b: 1 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should discard nested transactions when the outer one aborts", () => {
+    const useStore = createStore({ a: 0, b: 0 });
+
+    useStore.transaction((tx) => {
+      useStore.transaction((inner) => {
+        inner.set((state) => ({ ...state, b: 1 }));
+      });
+      tx.abort();
+    });
+
+    expect(useStore.getState()).toEqual({ a: 0, b: 0 });
+  });
+
+  it("should discard every update when aborted", () => {
+    const useStore = createAccountStore();
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+    const after = jest.fn();
+
+    const result = useStore.transaction((tx) => {
+      tx.set((state) => ({ ...state, balance: state.balance - 150 }));
+      if (tx.get().balance < 0) tx.abort();
+      after();
+      return "done";
+    });
+
+    expect(result).toBeUndefined();
+    expect(after).not.toHaveBeenCalled();
+    expect(useStore.getState().balance).toBe(100);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should discard every update and rethrow when the callback throws", () => {
+    const useStore = createAccountStore();
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    expect(() =>
+      useStore.transaction((tx) => {
+        tx.set((state) => ({ ...state, balance: 0 }));
+        throw new Error("Validation failed");
+      })
+    ).toThrow("Validation failed");
+
+    expect(useStore.getState().balance).toBe(100);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should reject async callbacks without committing", () => {
+    const useStore = createAccountStore();
+
+    expect(() =>
+      useStore.transaction(async (tx) => {
+        tx.set((state) => ({ ...state, balance: 0 }));
+      })
+    ).toThrow("[react-foam] transaction() callbacks must be synchronous.");
+    expect(useStore.getState().balance).toBe(100);
+  });
+
+  it("should not allow updates after the transaction finished", () => {
+    const useStore = createAccountStore();
+    let leaked: { set: (state: Account) => void } | undefined;
+
+    useStore.transaction((tx) => {
+      leaked = tx;
+    });
+
+    expect(() => leaked!.set({ balance: 0, history: [] })).toThrow(
+      "[react-foam] The transaction has already finished."
+    );
+  });
+});
+
+describe("selector subscriptions", () => {
+  const createFilterStore = () =>
+    createStore({ filter: "all", todos: [] as string[] });
+
+  it("should call the listener only when the selected value changes", () => {
+    const useStore = createFilterStore();
+    const listener = jest.fn();
+    useStore.subscribe((state) => state.filter, listener);
+
+    useStore.setState((state) => ({ ...state, todos: ["Write tests"] }));
+    expect(listener).not.toHaveBeenCalled();
+
+    useStore.setState((state) => ({ ...state, filter: "done" }));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("done", "all");
+  });
+
+  it("should use the given equality function", () => {
+    const useStore = createFilterStore();
+    const listener = jest.fn();
+    useStore.subscribe(
+      (state) => ({ count: state.todos.length }),
+      listener,
+      { equalityFn: shallow }
+    );
+
+    useStore.setState((state) => ({ ...state, filter: "done" }));
+    expect(listener).not.toHaveBeenCalled();
+
+    useStore.setState((state) => ({ ...state, todos: ["Write tests"] }));
+    expect(listener).toHaveBeenCalledWith({ count: 1 }, { count: 0 });
+  });
+
+  it("should fire immediately when asked to", () => {
+    const useStore = createFilterStore();
+    const listener = jest.fn();
+    const unsubscribe = useStore.subscribe((state) => state.filter, listener, {
+      fireImmediately: true,
+    });
+
+    expect(listener).toHaveBeenCalledWith("all", "all");
+
+    unsubscribe();
+    useStore.setState((state) => ({ ...state, filter: "done" }));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("reactions", () => {
+  const createFilterStore = () =>
+    createStore({ filter: "all", todos: [] as string[] });
+
+  it("should run the effect when the selected value changes", () => {
+    const useStore = createFilterStore();
+    const effect = jest.fn();
+    reaction(useStore, (state) => state.filter, effect);
+
+    useStore.setState((state) => ({ ...state, todos: ["Write tests"] }));
+    expect(effect).not.toHaveBeenCalled();
+
+    useStore.setState((state) => ({ ...state, filter: "done" }));
+    expect(effect).toHaveBeenCalledWith("done", "all");
+  });
+
+  it("should run the previous cleanup before each effect and on dispose", () => {
+    const useStore = createFilterStore();
+    const calls: string[] = [];
+    const dispose = reaction(
+      useStore,
+      (state) => state.filter,
+      (filter) => {
+        calls.push(`run ${filter}`);
+        return () => calls.push(`cleanup ${filter}`);
+      },
+      { fireImmediately: true }
+    );
+
+    useStore.setState((state) => ({ ...state, filter: "done" }));
+    dispose();
+    useStore.setState((state) => ({ ...state, filter: "active" }));
+
+    expect(calls).toEqual([
+      "run all",
+      "cleanup all",
+      "run done",
+      "cleanup done",
+    ]);
+  });
+
+  it("should be disposed when the store is destroyed", () => {
+    const useStore = createFilterStore();
+    const cleanup = jest.fn();
+    reaction(useStore, (state) => state.filter, () => cleanup, {
+      fireImmediately: true,
+    });
+
+    useStore.destroy();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it("should react to derived stores", () => {
+    const useStore = createFilterStore();
+    const useCount = derived([useStore], (state) => state.todos.length);
+    const effect = jest.fn();
+    reaction(useCount, (count) => count > 0, effect);
+
+    useStore.setState((state) => ({ ...state, todos: ["Write tests"] }));
+    useStore.setState((state) => ({ ...state, todos: ["Write tests", "Ship"] }));
+
+    expect(effect).toHaveBeenCalledTimes(1);
+    expect(effect).toHaveBeenCalledWith(true, false);
+  });
+
+  describe("with timing options", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should debounce the effect", () => {
+      const useStore = createFilterStore();
+      const effect = jest.fn();
+      reaction(useStore, (state) => state.filter, effect, { debounce: 100 });
+
+      useStore.setState((state) => ({ ...state, filter: "d" }));
+      jest.advanceTimersByTime(50);
+      useStore.setState((state) => ({ ...state, filter: "done" }));
+      jest.advanceTimersByTime(99);
+      expect(effect).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(effect).toHaveBeenCalledTimes(1);
+      expect(effect).toHaveBeenCalledWith("done", "all");
+    });
+
+    it("should skip a debounced change that was undone", () => {
+      const useStore = createFilterStore();
+      const effect = jest.fn();
+      reaction(useStore, (state) => state.filter, effect, { debounce: 100 });
+
+      useStore.setState((state) => ({ ...state, filter: "done" }));
+      useStore.setState((state) => ({ ...state, filter: "all" }));
+      jest.advanceTimersByTime(100);
+
+      expect(effect).not.toHaveBeenCalled();
+    });
+
+    it("should throttle the effect, running the latest value last", () => {
+      const useStore = createFilterStore();
+      const effect = jest.fn();
+      reaction(useStore, (state) => state.filter, effect, { throttle: 100 });
+
+      useStore.setState((state) => ({ ...state, filter: "a" }));
+      useStore.setState((state) => ({ ...state, filter: "b" }));
+      useStore.setState((state) => ({ ...state, filter: "c" }));
+      expect(effect).toHaveBeenCalledTimes(1);
+      expect(effect).toHaveBeenLastCalledWith("a", "all");
+
+      jest.advanceTimersByTime(100);
+      expect(effect).toHaveBeenCalledTimes(2);
+      expect(effect).toHaveBeenLastCalledWith("c", "a");
+    });
+
+    it("should cancel a pending run when disposed", () => {
+      const useStore = createFilterStore();
+      const effect = jest.fn();
+      const dispose = reaction(useStore, (state) => state.filter, effect, {
+        debounce: 100,
+      });
+
+      useStore.setState((state) => ({ ...state, filter: "done" }));
+      dispose();
+      jest.advanceTimersByTime(100);
+
+      expect(effect).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("state update nuances", () => {
+  it("setState should replace the state, not merge it", () => {
+    // This is a critical test to document the library's behavior.
+    // Unlike Zustand, react-foam's setState does not automatically merge state.
+    const useStore = createStore({ count: 0, name: "initial" });
+    const { result } = renderHook(() => useStore());
+
+    expect(result.current).toEqual({ count: 0, name: "initial" });
+
+    // This update should *replace* the entire state object.
+    act(() => {
+      // @ts-expect-error We are intentionally passing a partial state to test replacement behavior
+      useStore.setState({ count: 1 });
+    });
+
+    // The 'name' property should be gone.
+    expect(result.current).toEqual({ count: 1 });
+    expect(useStore.getState()).toEqual({ count: 1 });
+  });
+});
+
+describe("store lifecycle and direct subscription", () => {
+  it("should stop notifying listeners after destroy() is called", () => {
+    const useStore = createStore({ count: 0 });
+    const { result } = renderHook(() => useStore());
+    const directListener = jest.fn();
+
+    // Attach a direct listener
+    useStore.subscribe(directListener);
+
+    act(() => {
+      useStore.setState({ count: 1 });
+    });
+
+    expect(result.current.count).toBe(1);
+    expect(directListener).toHaveBeenCalledTimes(1);
+
+    // Destroy the store
+    // This is a private but testable method in the original code.
+    const storeInternals = useStore as any;
+    if (storeInternals.destroy) {
+      act(() => {
+        storeInternals.destroy();
+      });
+    } else {
+      // Since `destroy` is not attached to the hook, we can test the subscription cleanup
+      // which is the main purpose of `destroy`. Let's clear listeners manually.
+      const listeners = (useStore as any).__private_get_listeners(); // Hypothetical getter for testing
+      if (listeners) listeners.clear();
+    }
+
+    // Try to update state again
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    act(() => {
+      useStore.setState({ count: 2 });
+    });
+    warn.mockRestore();
+
+    // A destroyed store ignores updates, and listeners are not called.
+    expect(useStore.getState().count).toBe(1);
+    // The hook's value should NOT have updated because its listener was removed.
+    expect(result.current.count).toBe(1);
+    // The direct listener should NOT have been called again.
+    expect(directListener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should subscribe and unsubscribe a listener correctly", () => {
+    const useStore = createStore({ count: 0 });
+    const listener = jest.fn();
+
+    // Subscribe the listener and get the unsubscribe function
+    const unsubscribe = useStore.subscribe(listener);
+
+    act(() => {
+      useStore.setState({ count: 1 });
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ count: 1 });
+
+    act(() => {
+      useStore.setState({ count: 2 });
+    });
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledWith({ count: 2 });
+
+    // Unsubscribe
+    unsubscribe();
+
+    // This update should not trigger the listener
+    act(() => {
+      useStore.setState({ count: 3 });
+    });
+    expect(listener).toHaveBeenCalledTimes(2); // Not called again
+    expect(useStore.getState().count).toBe(3);
+  });
+});
+
+describe("middleware", () => {
+  it("should pass the previous state, next state and metadata to middleware", () => {
+    const calls: unknown[] = [];
+    const logger: Middleware<{ count: number }> = (api) => ({
+      setState(nextState, meta) {
+        calls.push({ prev: api.getState(), next: nextState, meta });
+        api.setState(nextState, meta);
+      },
+    });
+    const useStore = createStore({ count: 0 }, { middleware: [logger] });
+
+    act(() => {
+      useStore.setState({ count: 1 }, { action: "increment" });
+    });
+
+    expect(calls).toEqual([
+      { prev: { count: 0 }, next: { count: 1 }, meta: { action: "increment" } },
+    ]);
+    expect(useStore.getState()).toEqual({ count: 1 });
+  });
+
+  it("should resolve functional updaters before calling middleware", () => {
+    const seen: number[] = [];
+    const useStore = createStore(
+      { count: 1 },
+      {
+        middleware: [
+          (api) => ({
+            setState(nextState, meta) {
+              seen.push(nextState.count);
+              api.setState(nextState, meta);
+            },
+          }),
+        ],
+      }
+    );
+
+    useStore.setState((state) => ({ count: state.count * 5 }));
+
+    expect(seen).toEqual([5]);
+    expect(useStore.getState().count).toBe(5);
+  });
+
+  it("should allow middleware to transform updates", () => {
+    const clamp: Middleware<{ count: number }> = (api) => ({
+      setState: (nextState, meta) =>
+        api.setState({ count: Math.min(nextState.count, 10) }, meta),
+    });
+    const useStore = createStore({ count: 0 }, { middleware: [clamp] });
+    const { result } = renderHook(() => useStore((state) => state.count));
+
+    act(() => {
+      useStore.setState({ count: 42 });
+    });
+
+    expect(result.current).toBe(10);
+  });
+
+  it("should allow middleware to veto updates", () => {
+    const listener = jest.fn();
+    const useStore = createStore(
+      { count: 0 },
+      {
+        middleware: [
+          (api) => ({
+            setState(nextState, meta) {
+              if (nextState.count >= 0) api.setState(nextState, meta);
+            },
+          }),
+        ],
+      }
+    );
+    useStore.subscribe(listener);
+
+    useStore.setState({ count: -1 });
+    expect(useStore.getState().count).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+
+    useStore.setState({ count: 3 });
+    expect(useStore.getState().count).toBe(3);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should run middleware outermost first", () => {
+    const order: string[] = [];
+    const tag =
+      (name: string): Middleware<{ count: number }> =>
+      (api) => ({
+        setState(nextState, meta) {
+          order.push(`${name}:before`);
+          api.setState(nextState, meta);
+          order.push(`${name}:after`);
+        },
+      });
+    const useStore = createStore(
+      { count: 0 },
+      { middleware: [tag("outer"), tag("inner")] }
+    );
+
+    useStore.setState({ count: 1 });
+
+    expect(order).toEqual([
+      "outer:before",
+      "inner:before",
+      "inner:after",
+      "outer:after",
+    ]);
+  });
+
+  it("should let middleware wrap getState and subscribe", () => {
+    const subscribed = jest.fn();
+    const useStore = createStore(
+      { count: 2 },
+      {
+        middleware: [
+          (api) => ({
+            getState: () => ({ count: api.getState().count * 10 }),
+            subscribe(listener) {
+              subscribed();
+              return api.subscribe(listener);
+            },
+          }),
+        ],
+      }
+    );
+
+    const { result } = renderHook(() => useStore((state) => state.count));
+
+    expect(result.current).toBe(20);
+    expect(useStore.getState()).toEqual({ count: 20 });
+    expect(subscribed).toHaveBeenCalled();
+  });
+});
+
+describe("batch", () => {
+  it("should notify each store once with its final state", () => {
+    const useCartStore = createStore({ items: [] as string[] });
+    const useUserStore = createStore({ name: "" });
+    const cartListener = jest.fn();
+    const userListener = jest.fn();
+    useCartStore.subscribe(cartListener);
+    useUserStore.subscribe(userListener);
+
+    batch(() => {
+      useCartStore.setState({ items: ["a"] });
+      useCartStore.setState((state) => ({ items: [...state.items, "b"] }));
+      useUserStore.setState({ name: "John" });
+
+      // Updates are visible immediately, only notifications are deferred.
+      expect(useCartStore.getState().items).toEqual(["a", "b"]);
+      expect(cartListener).not.toHaveBeenCalled();
+      expect(userListener).not.toHaveBeenCalled();
+    });
+
+    expect(cartListener).toHaveBeenCalledTimes(1);
+    expect(cartListener).toHaveBeenCalledWith({ items: ["a", "b"] });
+    expect(userListener).toHaveBeenCalledTimes(1);
+    expect(userListener).toHaveBeenCalledWith({ name: "John" });
+  });
+
+  it("should render components once per batch", () => {
+    const useCartStore = createStore({ count: 0 });
+    const useUserStore = createStore({ discount: 0 });
+    const seen: string[] = [];
+
+    renderHook(() => {
+      const count = useCartStore((state) => state.count);
+      const discount = useUserStore((state) => state.discount);
+      seen.push(`${count}/${discount}`);
+    });
+
+    act(() => {
+      batch(() => {
+        useCartStore.setState({ count: 3 });
+        useUserStore.setState({ discount: 10 });
+      });
+    });
+
+    expect(seen).toEqual(["0/0", "3/10"]);
+  });
+
+  it("should only flush when the outermost batch returns", () => {
+    const useStore = createStore({ count: 0 });
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    batch(() => {
+      batch(() => {
+        useStore.setState({ count: 1 });
+      });
+      expect(listener).not.toHaveBeenCalled();
+      useStore.setState({ count: 2 });
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ count: 2 });
+  });
+
+  it("should return the callback's result", () => {
+    expect(batch(() => 42)).toBe(42);
+  });
+
+  it("should still notify listeners when the callback throws", () => {
+    const useStore = createStore({ count: 0 });
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    expect(() =>
+      batch(() => {
+        useStore.setState({ count: 1 });
+        throw new Error("Batch error");
+      })
+    ).toThrow("Batch error");
+
+    expect(listener).toHaveBeenCalledWith({ count: 1 });
+  });
+});
+
+describe("persist", () => {
+  const createAsyncStorage = () => {
+    const data = new Map<string, string>();
+    let resolveRead: () => void = () => {};
+    const adapter: StorageAdapter = {
+      getItem: (key) =>
+        new Promise((resolve) => {
+          resolveRead = () => resolve(data.get(key) ?? null);
+        }),
+      setItem: async (key, value) => {
+        data.set(key, value);
+      },
+      removeItem: async (key) => {
+        data.delete(key);
+      },
+    };
+    return { adapter, data, resolveRead: () => resolveRead() };
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it("should save state to localStorage on every change", () => {
+    const useStore = createStore({ count: 0 });
+    persist(useStore, { key: "counter" });
+
+    useStore.setState({ count: 3 });
+
+    expect(JSON.parse(localStorage.getItem("counter")!)).toEqual({
+      state: { count: 3 },
+      version: 0,
+    });
+  });
+
+  it("should rehydrate synchronously from web storage", () => {
+    sessionStorage.setItem(
+      "counter",
+      JSON.stringify({ state: { count: 7 }, version: 0 })
+    );
+    const useStore = createStore({ count: 0, step: 1 });
+
+    const persistence = persist(useStore, {
+      key: "counter",
+      storage: sessionStorageAdapter,
+    });
+
+    expect(persistence.hasHydrated()).toBe(true);
+    expect(useStore.getState()).toEqual({ count: 7, step: 1 });
+  });
+
+  it("should only save the partialized state", () => {
+    const useStore = createStore({ token: "", draft: "" });
+    persist(useStore, {
+      key: "auth",
+      storage: localStorageAdapter,
+      partialize: (state) => ({ token: state.token }),
+    });
+
+    useStore.setState({ token: "abc", draft: "unsaved" });
+
+    expect(JSON.parse(localStorage.getItem("auth")!).state).toEqual({
+      token: "abc",
+    });
+  });
+
+  it("should discard state saved under another version without migrate", () => {
+    localStorage.setItem(
+      "counter",
+      JSON.stringify({ state: { count: 7 }, version: 1 })
+    );
+    const useStore = createStore({ count: 0 });
+
+    const persistence = persist(useStore, { key: "counter", version: 2 });
+
+    expect(persistence.hasHydrated()).toBe(true);
+    expect(useStore.getState()).toEqual({ count: 0 });
+  });
+
+  it("should reject state saved under a version the store can't migrate", async () => {
+    const migrations = createMigrations<{ count: number }>(1).add(
+      2,
+      (state) => state
+    );
+    const useStore = createStore({ count: 0 }, { migrations });
+    const persistence = persist(useStore, { key: "counter" });
+    localStorage.setItem(
+      "counter",
+      JSON.stringify({ state: { count: 7 }, version: 0 })
+    );
+
+    await expect(persistence.rehydrate()).rejects.toBeInstanceOf(
+      MigrationError
+    );
+    expect(persistence.hasHydrated()).toBe(true);
+    expect(useStore.getState()).toEqual({ count: 0 });
+  });
+
+  it("should migrate saved state through the store's migrations", () => {
+    localStorage.setItem(
+      "counter",
+      JSON.stringify({ state: { value: 7 }, version: 0 })
+    );
+    const migrations = createMigrations<{ value: number }>().add(
+      1,
+      (state) => ({ count: state.value })
+    );
+    const useStore = createStore({ count: 0 }, { migrations });
+
+    persist(useStore, { key: "counter" });
+
+    expect(useStore.getState()).toEqual({ count: 7 });
+    useStore.setState({ count: 8 });
+    expect(JSON.parse(localStorage.getItem("counter")!).version).toBe(1);
+  });
+
+  it("should not run the store's migrations on partialized state", () => {
+    localStorage.setItem(
+      "settings",
+      JSON.stringify({ state: { size: 12 }, version: 0 })
+    );
+    const migrations = createMigrations<{ size: number; tags: string[] }>().add(
+      1,
+      (state) => ({ fontSize: state.size, tagCount: state.tags.length })
+    );
+    const useStore = createStore({ fontSize: 14, tagCount: 0 }, { migrations });
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    persist(useStore, {
+      key: "settings",
+      partialize: (state) => ({ fontSize: state.fontSize }),
+    });
+
+    expect(useStore.getState()).toEqual({ fontSize: 14, tagCount: 0 });
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it("should not use the store's migrations for another version", () => {
+    localStorage.setItem(
+      "counter",
+      JSON.stringify({ state: { value: 7 }, version: 0 })
+    );
+    const migrations = createMigrations<{ value: number }>().add(
+      1,
+      (state) => ({ count: state.value })
+    );
+    const useStore = createStore({ count: 0 }, { migrations });
+
+    persist(useStore, { key: "counter", version: 5 });
+
+    expect(useStore.getState()).toEqual({ count: 0 });
+  });
+
+  it("should migrate state saved under an older version", () => {
+    localStorage.setItem(
+      "counter",
+      JSON.stringify({ state: { value: 7 }, version: 1 })
+    );
+    const useStore = createStore({ count: 0 });
+    const migrate = jest.fn((state: unknown) => ({
+      count: (state as { value: number }).value,
+    }));
+
+    persist(useStore, { key: "counter", version: 2, migrate });
+
+    expect(migrate).toHaveBeenCalledWith({ value: 7 }, 1);
+    expect(useStore.getState()).toEqual({ count: 7 });
+  });
+
+  it("should report hydration status for async storage", async () => {
+    const storage = createAsyncStorage();
+    storage.data.set(
+      "counter",
+      JSON.stringify({ state: { count: 5 }, version: 0 })
+    );
+    const useStore = createStore({ count: 0 });
+    const onHydrated = jest.fn();
+
+    const persistence = persist(useStore, {
+      key: "counter",
+      storage: storage.adapter,
+    });
+    persistence.onHydrated(onHydrated);
+
+    // Changes made before hydration finishes are not saved over stored state.
+    useStore.setState({ count: 1 });
+    expect(persistence.hasHydrated()).toBe(false);
+    expect(JSON.parse(storage.data.get("counter")!).state).toEqual({ count: 5 });
+
+    await act(async () => {
+      storage.resolveRead();
+    });
+
+    expect(persistence.hasHydrated()).toBe(true);
+    expect(onHydrated).toHaveBeenCalledTimes(1);
+    expect(useStore.getState()).toEqual({ count: 5 });
+
+    useStore.setState({ count: 6 });
+    expect(JSON.parse(storage.data.get("counter")!).state).toEqual({ count: 6 });
+  });
+
+  it("should reject rehydrate when the saved state is corrupt", async () => {
+    const useStore = createStore({ count: 0 });
+    const persistence = persist(useStore, { key: "counter" });
+    localStorage.setItem("counter", "{not json");
+
+    await expect(persistence.rehydrate()).rejects.toThrow(SyntaxError);
+    expect(persistence.hasHydrated()).toBe(true);
+    expect(useStore.getState()).toEqual({ count: 0 });
+  });
+
+  it("should stop saving after destroy and clear saved state", async () => {
+    const useStore = createStore({ count: 0 });
+    const persistence = persist(useStore, { key: "counter" });
+
+    useStore.setState({ count: 1 });
+    persistence.destroy();
+    useStore.setState({ count: 2 });
+
+    expect(JSON.parse(localStorage.getItem("counter")!).state).toEqual({
+      count: 1,
+    });
+
+    await persistence.clearStorage();
+    expect(localStorage.getItem("counter")).toBeNull();
+  });
+
+  describe("createIndexedDBAdapter", () => {
+    // A minimal in-memory stand-in for the parts of IndexedDB the adapter uses.
+    const installFakeIndexedDB = () => {
+      const stores = new Map<string, Map<IDBValidKey, unknown>>();
+      const request = <R>(compute: () => R) => {
+        const req = {} as IDBRequest<R> & { result: R };
+        setTimeout(() => {
+          req.result = compute();
+          req.onsuccess?.call(req, new Event("success"));
+        });
+        return req;
+      };
+      const db = {
+        createObjectStore: (name: string) => stores.set(name, new Map()),
+        transaction: (name: string) => ({
+          objectStore: () => {
+            const data = stores.get(name)!;
+            return {
+              get: (key: IDBValidKey) => request(() => data.get(key)),
+              put: (value: unknown, key: IDBValidKey) =>
+                request(() => data.set(key, value) && key),
+              delete: (key: IDBValidKey) =>
+                request(() => data.delete(key) && undefined),
+            };
+          },
+        }),
+      };
+      (globalThis as any).indexedDB = {
+        open: () => {
+          const req = { result: db } as any;
+          setTimeout(() => {
+            req.onupgradeneeded?.();
+            req.onsuccess?.();
+          });
+          return req;
+        },
+      };
+      return stores;
+    };
+
+    afterEach(() => {
+      delete (globalThis as any).indexedDB;
+    });
+
+    it("should store and read values through IndexedDB", async () => {
+      const stores = installFakeIndexedDB();
+      const adapter = createIndexedDBAdapter("app", "kv");
+
+      await adapter.setItem("counter", "42");
+      expect(stores.get("kv")!.get("counter")).toBe("42");
+      expect(await adapter.getItem("counter")).toBe("42");
+
+      await adapter.removeItem("counter");
+      expect(await adapter.getItem("counter")).toBeNull();
+    });
+
+    it("should hydrate a persisted store asynchronously", async () => {
+      installFakeIndexedDB();
+      const adapter = createIndexedDBAdapter();
+      await adapter.setItem(
+        "counter",
+        JSON.stringify({ state: { count: 9 }, version: 0 })
+      );
+      const useStore = createStore({ count: 0 });
+
+      const persistence = persist(useStore, { key: "counter", storage: adapter });
+      expect(persistence.hasHydrated()).toBe(false);
+
+      await new Promise<void>((resolve) => persistence.onHydrated(resolve));
+      expect(useStore.getState()).toEqual({ count: 9 });
+    });
+  });
+});
+
+describe("migrations", () => {
+  interface TodoV0 {
+    name: string;
+  }
+  interface TodoV1 {
+    name: string;
+    tags: string[];
+  }
+  interface TodoV2 {
+    title: string;
+    tags: string[];
+  }
+
+  const migrations = createMigrations<TodoV0>()
+    .add(1, (state): TodoV1 => ({ ...state, tags: [] }))
+    .add(2, (state): TodoV2 => ({ title: state.name, tags: state.tags }));
+
+  it("should report the latest schema version", () => {
+    expect(createMigrations().version).toBe(0);
+    expect(createMigrations(3).version).toBe(3);
+    expect(migrations.version).toBe(2);
+  });
+
+  it("should chain migrations from the saved version to the latest", () => {
+    expect(migrations.migrate({ name: "a" }, 0)).toEqual({
+      title: "a",
+      tags: [],
+    });
+    expect(migrations.migrate({ name: "b", tags: ["x"] }, 1)).toEqual({
+      title: "b",
+      tags: ["x"],
+    });
+    expect(migrations.migrate({ title: "c", tags: [] }, 2)).toEqual({
+      title: "c",
+      tags: [],
+    });
+  });
+
+  it("should report a structured error when no migration path exists", () => {
+    const error = (() => {
+      try {
+        migrations.migrate({ title: "d", tags: [] }, 3);
+      } catch (caught) {
+        return caught;
+      }
+      return undefined;
+    })() as MigrationError;
+
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error.fromVersion).toBe(3);
+    expect(error.toVersion).toBe(2);
+    expect(() => createMigrations(1).migrate({}, 0)).toThrow(MigrationError);
+  });
+
+  it("should reject migrations registered out of order", () => {
+    expect(() => createMigrations().add(2, (state) => state)).toThrow(
+      "Expected a migration to version 1"
+    );
+  });
+
+  it("should tag snapshots with the store's schema version", () => {
+    const useStore = createStore<TodoV2>(
+      { title: "e", tags: [] },
+      { migrations }
+    );
+
+    expect(useStore.toSnapshot()).toEqual({
+      state: { title: "e", tags: [] },
+      version: 2,
+    });
+    expect(createStore({ count: 0 }).toSnapshot().version).toBe(0);
+  });
+
+  it("should migrate snapshots loaded into a store", () => {
+    const useStore = createStore<TodoV2>(
+      { title: "", tags: [] },
+      { migrations }
+    );
+    const { result } = renderHook(() => useStore((state) => state.title));
+
+    act(() => {
+      useStore.loadSnapshot({ state: { name: "loaded" }, version: 0 });
+    });
+
+    expect(result.current).toBe("loaded");
+    expect(useStore.getState()).toEqual({ title: "loaded", tags: [] });
+  });
+
+  it("should leave the state untouched when a snapshot can't be migrated", () => {
+    const useStore = createStore({ count: 0 });
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    expect(() =>
+      useStore.loadSnapshot({ state: { count: "1" }, version: 1 })
+    ).toThrow(MigrationError);
+    expect(useStore.getState()).toEqual({ count: 0 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe("withHistory", () => {
+  it("should undo and redo updates", () => {
+    const useStore = createStore({ text: "" });
+    const history = withHistory(useStore);
+
+    useStore.setState({ text: "a" });
+    useStore.setState({ text: "ab" });
+    expect(history.canUndo).toBe(true);
+    expect(history.canRedo).toBe(false);
+
+    history.undo();
+    expect(useStore.getState()).toEqual({ text: "a" });
+    expect(history.canRedo).toBe(true);
+
+    history.undo();
+    expect(useStore.getState()).toEqual({ text: "" });
+    expect(history.canUndo).toBe(false);
+
+    history.redo();
+    history.redo();
+    expect(useStore.getState()).toEqual({ text: "ab" });
+    expect(history.canRedo).toBe(false);
+  });
+
+  it("should drop redo steps when a new update is recorded", () => {
+    const useStore = createStore({ count: 0 });
+    const history = withHistory(useStore);
+
+    useStore.setState({ count: 1 });
+    history.undo();
+    useStore.setState({ count: 5 });
+
+    expect(history.canRedo).toBe(false);
+    history.undo();
+    expect(useStore.getState()).toEqual({ count: 0 });
+  });
+
+  it("should keep at most `limit` undo steps", () => {
+    const useStore = createStore({ count: 0 });
+    const history = withHistory(useStore, { limit: 2 });
+
+    for (let count = 1; count <= 4; count++) {
+      useStore.setState({ count });
+    }
+    history.undo();
+    history.undo();
+    history.undo();
+
+    expect(useStore.getState()).toEqual({ count: 2 });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("should merge consecutive updates with the same groupBy key", () => {
+    const useStore = createStore({ text: "", bold: false });
+    const history = withHistory(useStore, {
+      groupBy: (meta) => (meta.action === "type" ? "typing" : undefined),
+    });
+
+    useStore.setState((s) => ({ ...s, text: "h" }), { action: "type" });
+    useStore.setState((s) => ({ ...s, text: "hi" }), { action: "type" });
+    useStore.setState((s) => ({ ...s, bold: true }), { action: "format" });
+    useStore.setState((s) => ({ ...s, text: "hi!" }), { action: "type" });
+
+    history.undo();
+    expect(useStore.getState()).toEqual({ text: "hi", bold: true });
+    history.undo();
+    expect(useStore.getState()).toEqual({ text: "hi", bold: false });
+    history.undo();
+    expect(useStore.getState()).toEqual({ text: "", bold: false });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("should record every update between beginGroup and endGroup as one step", () => {
+    const useStore = createStore({ x: 0, y: 0 });
+    const history = withHistory(useStore);
+
+    history.beginGroup();
+    useStore.setState({ x: 10, y: 0 });
+    useStore.setState({ x: 20, y: 5 });
+    useStore.setState({ x: 30, y: 10 });
+    history.endGroup();
+    useStore.setState({ x: 0, y: 0 });
+
+    history.undo();
+    expect(useStore.getState()).toEqual({ x: 30, y: 10 });
+    history.undo();
+    expect(useStore.getState()).toEqual({ x: 0, y: 0 });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("should skip updates rejected by filter", () => {
+    const useStore = createStore({ count: 0 });
+    const history = withHistory(useStore, {
+      filter: (meta) => meta.action !== "sync",
+    });
+
+    useStore.setState({ count: 1 }, { action: "sync" });
+    expect(history.canUndo).toBe(false);
+
+    useStore.setState({ count: 2 });
+    history.undo();
+    expect(useStore.getState()).toEqual({ count: 1 });
+  });
+
+  it("should clear recorded steps and stop recording after destroy", () => {
+    const useStore = createStore({ count: 0 });
+    const history = withHistory(useStore);
+
+    useStore.setState({ count: 1 });
+    history.undo();
+    history.clear();
+    expect(history.canUndo).toBe(false);
+    expect(history.canRedo).toBe(false);
+
+    history.destroy();
+    useStore.setState({ count: 2 });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("should re-render components using useHistory", () => {
+    const useStore = createStore({ count: 0 });
+    const history = withHistory(useStore);
+    const { result } = renderHook(() => history.useHistory());
+
+    expect(result.current).toEqual({
+      canUndo: false,
+      canRedo: false,
+      pastCount: 0,
+      futureCount: 0,
+    });
+
+    act(() => {
+      useStore.setState({ count: 1 });
+    });
+    expect(result.current.canUndo).toBe(true);
+
+    act(() => {
+      history.undo();
+    });
+    expect(result.current).toEqual({
+      canUndo: false,
+      canRedo: true,
+      pastCount: 0,
+      futureCount: 1,
+    });
+  });
+});
+
+describe("onChange", () => {
+  it("should pass the previous state and update metadata to listeners", () => {
+    const useStore = createStore({ count: 0 });
+    const listener = jest.fn();
+    useStore.onChange(listener);
+
+    useStore.setState({ count: 1 }, { action: "increment" });
+
+    expect(listener).toHaveBeenCalledWith(
+      { count: 1 },
+      { count: 0 },
+      { action: "increment" }
+    );
+  });
+
+  it("should pass the state from before the batch to batched listeners", () => {
+    const useStore = createStore({ count: 0 });
+    const listener = jest.fn();
+    useStore.onChange(listener);
+
+    batch(() => {
+      useStore.setState({ count: 1 });
+      useStore.setState({ count: 2 }, { action: "last" });
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      { count: 2 },
+      { count: 0 },
+      { action: "last" }
+    );
+  });
 
-    expect(result.current).toEqual({ count: 0, name: "initial" });
+  it("should stop calling the listener after it unsubscribes", () => {
+    const useStore = createStore({ count: 0 });
+    const listener = jest.fn();
+    const unsubscribe = useStore.onChange(listener);
+
+    unsubscribe();
+    useStore.setState({ count: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe("devtools", () => {
+  afterEach(() => {
+    uninstallMockDevtoolsExtension();
+  });
+
+  it("should do nothing when the extension isn't installed", () => {
+    const useStore = createStore({ count: 0 });
+    const connection = devtools(useStore);
+
+    expect(connection.connected).toBe(false);
+    expect(() => connection.destroy()).not.toThrow();
+  });
+
+  it("should send the initial state and every labelled update", () => {
+    const extension = installMockDevtoolsExtension();
+    const useStore = createStore({ count: 0 });
+
+    const connection = devtools(useStore, { name: "counter" });
+    useStore.setState({ count: 1 }, { action: "increment" });
+    useStore.setState({ count: 5 });
+
+    expect(connection.connected).toBe(true);
+    const [mock] = extension.connections;
+    expect(mock.name).toBe("counter");
+    expect(mock.calls).toEqual([
+      { method: "init", state: { count: 0 } },
+      {
+        method: "send",
+        action: { type: "increment", action: "increment" },
+        state: { count: 1 },
+      },
+      { method: "send", action: { type: "setState" }, state: { count: 5 } },
+    ]);
+  });
+
+  it("should jump to states chosen in the extension without echoing them", () => {
+    const extension = installMockDevtoolsExtension();
+    const useStore = createStore({ count: 0 });
+    devtools(useStore);
+    const [mock] = extension.connections;
+    const { result } = renderHook(() => useStore((state) => state.count));
 
-    // This update should *replace* the entire state object.
     act(() => {
-      // @ts-expect-error We are intentionally passing a partial state to test replacement behavior
-      useStore.setState({ count: 1 });
+      mock.dispatch({ type: "JUMP_TO_STATE" }, { count: 3 });
     });
+    expect(result.current).toBe(3);
 
-    // The 'name' property should be gone.
-    expect(result.current).toEqual({ count: 1 });
-    expect(useStore.getState()).toEqual({ count: 1 });
+    act(() => {
+      mock.dispatch({ type: "JUMP_TO_ACTION" }, { count: 7 });
+    });
+    expect(result.current).toBe(7);
+    expect(mock.calls.filter((call) => call.method === "send")).toEqual([]);
   });
-});
 
-describe("store lifecycle and direct subscription", () => {
-  it("should stop notifying listeners after destroy() is called", () => {
+  it("should import a lifted state from the extension", () => {
+    const extension = installMockDevtoolsExtension();
     const useStore = createStore({ count: 0 });
-    const { result } = renderHook(() => useStore());
-    const directListener = jest.fn();
+    devtools(useStore);
+    const [mock] = extension.connections;
+    const nextLiftedState = {
+      computedStates: [{ state: { count: 1 } }, { state: { count: 2 } }],
+    };
+
+    mock.dispatch({ type: "IMPORT_STATE", nextLiftedState });
+
+    expect(useStore.getState()).toEqual({ count: 2 });
+    expect(mock.calls[mock.calls.length - 1]).toEqual({
+      method: "send",
+      action: null,
+      state: nextLiftedState,
+    });
+  });
 
-    // Attach a direct listener
-    useStore.subscribe(directListener);
+  it("should stop sending updates while recording is paused", () => {
+    const extension = installMockDevtoolsExtension();
+    const useStore = createStore({ count: 0 });
+    devtools(useStore);
+    const [mock] = extension.connections;
+
+    mock.dispatch({ type: "PAUSE_RECORDING", status: true });
+    useStore.setState({ count: 1 });
+    mock.dispatch({ type: "PAUSE_RECORDING", status: false });
+    useStore.setState({ count: 2 });
+
+    expect(mock.calls.filter((call) => call.method === "send")).toEqual([
+      { method: "send", action: { type: "setState" }, state: { count: 2 } },
+    ]);
+  });
+
+  it("should reset, commit and roll back from the extension", () => {
+    const extension = installMockDevtoolsExtension();
+    const useStore = createStore({ count: 0 });
+    devtools(useStore);
+    const [mock] = extension.connections;
+
+    useStore.setState({ count: 4 });
+    mock.dispatch({ type: "COMMIT" });
+    expect(mock.calls[mock.calls.length - 1]).toEqual({
+      method: "init",
+      state: { count: 4 },
+    });
+
+    mock.dispatch({ type: "ROLLBACK" }, { count: 2 });
+    expect(useStore.getState()).toEqual({ count: 2 });
+
+    mock.dispatch({ type: "RESET" });
+    expect(useStore.getState()).toEqual({ count: 0 });
+    expect(mock.calls[mock.calls.length - 1]).toEqual({
+      method: "init",
+      state: { count: 0 },
+    });
+  });
+
+  it("should disconnect on destroy", () => {
+    const extension = installMockDevtoolsExtension();
+    const useStore = createStore({ count: 0 });
+    const connection = devtools(useStore);
+    const [mock] = extension.connections;
+
+    connection.destroy();
+    useStore.setState({ count: 1 });
+
+    expect(mock.subscribed).toBe(false);
+    expect(mock.calls).toEqual([{ method: "init", state: { count: 0 } }]);
+  });
+});
+
+describe("actions", () => {
+  const createCounterStore = (middleware: Middleware<{ count: number }>[] = []) =>
+    createStore(
+      { count: 0 },
+      {
+        middleware,
+        actions: (set, get) => ({
+          increment: () => set((state) => ({ count: state.count + 1 })),
+          add: (amount: number) => set({ count: get().count + amount }),
+          reset: () => set({ count: 0 }, { action: "counter/reset" }),
+          double() {
+            this.add(get().count);
+          },
+        }),
+      }
+    );
+
+  it("should attach typed actions to the store", () => {
+    const useStore = createCounterStore();
+    const { result } = renderHook(() => useStore((state) => state.count));
 
     act(() => {
-      useStore.setState({ count: 1 });
+      useStore.actions.increment();
+      useStore.actions.add(5);
     });
 
-    expect(result.current.count).toBe(1);
-    expect(directListener).toHaveBeenCalledTimes(1);
+    expect(result.current).toBe(6);
+  });
 
-    // Destroy the store
-    // This is a private but testable method in the original code.
-    const storeInternals = useStore as any;
-    if (storeInternals.destroy) {
-      act(() => {
-        storeInternals.destroy();
+  it("should accept the actions creator as the second argument", () => {
+    const useStore = createStore({ items: [] as string[] }, (set) => ({
+      addItem: (item: string) =>
+        set((state) => ({ items: [...state.items, item] })),
+    }));
+
+    useStore.actions.addItem("apple");
+
+    expect(useStore.getState()).toEqual({ items: ["apple"] });
+  });
+
+  it("should label updates with the action name", () => {
+    const actionNames: unknown[] = [];
+    const useStore = createCounterStore([
+      (api) => ({
+        setState(nextState, meta) {
+          actionNames.push(meta.action);
+          api.setState(nextState, meta);
+        },
+      }),
+    ]);
+
+    useStore.actions.increment();
+    useStore.actions.reset();
+    useStore.setState({ count: 3 });
+
+    expect(actionNames).toEqual(["increment", "counter/reset", undefined]);
+  });
+
+  it("should label updates with the innermost running action", () => {
+    const listener = jest.fn();
+    const useStore = createCounterStore();
+    useStore.setState({ count: 2 });
+    useStore.onChange(listener);
+
+    useStore.actions.double();
+
+    expect(listener).toHaveBeenCalledWith(
+      { count: 4 },
+      { count: 2 },
+      { action: "add" }
+    );
+  });
+
+  it("should stop labelling once an action throws", () => {
+    const listener = jest.fn();
+    const useStore = createStore({ count: 0 }, (set) => ({
+      fail: () => {
+        set({ count: 1 });
+        throw new Error("Action error");
+      },
+    }));
+    useStore.onChange(listener);
+
+    expect(() => useStore.actions.fail()).toThrow("Action error");
+    useStore.setState({ count: 2 });
+
+    expect(listener).toHaveBeenLastCalledWith({ count: 2 }, { count: 1 }, {});
+  });
+
+  it("should default to an empty actions object", () => {
+    expect(createStore({ count: 0 }).actions).toEqual({});
+  });
+});
+
+describe("equality functions", () => {
+  it("should keep the previous selection when the equality function matches", () => {
+    const useStore = createStore({ name: "John", age: 30, lastSeen: 0 });
+    let renderCount = 0;
+
+    const { result } = renderHook(() => {
+      renderCount++;
+      return useStore((state) => ({ name: state.name, age: state.age }), shallow);
+    });
+    const firstSelection = result.current;
+
+    act(() => {
+      useStore.setState((state) => ({ ...state, lastSeen: 1 }));
+    });
+
+    expect(renderCount).toBe(1);
+    expect(result.current).toBe(firstSelection);
+
+    act(() => {
+      useStore.setState((state) => ({ ...state, age: 31 }));
+    });
+
+    expect(renderCount).toBe(2);
+    expect(result.current).toEqual({ name: "John", age: 31 });
+  });
+
+  it("should support deepEqual for nested selections", () => {
+    const useStore = createStore({
+      filters: { tags: ["a"], range: { from: 1 } },
+      tick: 0,
+    });
+    let renderCount = 0;
+
+    renderHook(() => {
+      renderCount++;
+      return useStore(
+        (state) => ({ ...state.filters, tags: [...state.filters.tags] }),
+        deepEqual
+      );
+    });
+
+    act(() => {
+      useStore.setState((state) => ({
+        tick: state.tick + 1,
+        filters: { tags: ["a"], range: { from: 1 } },
+      }));
+    });
+    expect(renderCount).toBe(1);
+
+    act(() => {
+      useStore.setState((state) => ({
+        ...state,
+        filters: { tags: ["a", "b"], range: { from: 1 } },
+      }));
+    });
+    expect(renderCount).toBe(2);
+  });
+
+  describe("shallow", () => {
+    it("should compare objects and arrays one level deep", () => {
+      expect(shallow({ a: 1, b: "x" }, { a: 1, b: "x" })).toBe(true);
+      expect(shallow({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+      expect(shallow({ a: 1, b: undefined }, { a: 1, c: undefined })).toBe(
+        false
+      );
+      expect(shallow({ a: { x: 1 } }, { a: { x: 1 } })).toBe(false);
+      expect(shallow([1, 2], [1, 2])).toBe(true);
+      expect(shallow([1, 2], [2, 1])).toBe(false);
+      expect(shallow<unknown>([1], { 0: 1 })).toBe(false);
+    });
+
+    it("should compare primitives, Maps and Sets", () => {
+      expect(shallow(NaN, NaN)).toBe(true);
+      expect(shallow<unknown>(1, "1")).toBe(false);
+      expect(shallow<unknown>(null, {})).toBe(false);
+      expect(shallow(new Map([["a", 1]]), new Map([["a", 1]]))).toBe(true);
+      expect(shallow(new Map([["a", 1]]), new Map([["a", 2]]))).toBe(false);
+      expect(shallow(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+      expect(shallow(new Set([1]), new Set([2]))).toBe(false);
+    });
+  });
+
+  describe("deepEqual", () => {
+    it("should compare nested structures", () => {
+      expect(
+        deepEqual(
+          { user: { name: "a", tags: ["x", "y"] }, count: 1 },
+          { user: { name: "a", tags: ["x", "y"] }, count: 1 }
+        )
+      ).toBe(true);
+      expect(
+        deepEqual({ user: { tags: ["x"] } }, { user: { tags: ["y"] } })
+      ).toBe(false);
+      expect(deepEqual([[1], [2]], [[1], [2, 3]])).toBe(false);
+    });
+
+    it("should compare dates, regular expressions, Maps and Sets by value", () => {
+      expect(deepEqual(new Date(5), new Date(5))).toBe(true);
+      expect(deepEqual(new Date(5), new Date(6))).toBe(false);
+      expect(deepEqual(/a/g, /a/g)).toBe(true);
+      expect(deepEqual(/a/g, /a/i)).toBe(false);
+      expect(
+        deepEqual(new Map([["a", { x: 1 }]]), new Map([["a", { x: 1 }]]))
+      ).toBe(true);
+      expect(deepEqual(new Set(["a"]), new Set(["a"]))).toBe(true);
+      expect(deepEqual<unknown>(new Date(5), { time: 5 })).toBe(false);
+    });
+  });
+});
+
+describe("server-side rendering", () => {
+  const renderCount = (useStore: StoreHook<{ count: number }>) => {
+    const Count = () => createElement("span", null, useStore((s) => s.count));
+    return createElement(Count);
+  };
+
+  it("should render a request's state to a string", () => {
+    const createCounterStore = createStoreFactory(() => ({ count: 0 }));
+    const requestStore = createCounterStore({ count: 4 });
+
+    expect(renderToString(renderCount(requestStore))).toBe("<span>4</span>");
+  });
+
+  it("should create independent instances per request", () => {
+    const createCounterStore = createStoreFactory(
+      () => ({ count: 0 }),
+      (set) => ({
+        increment: () => set((state) => ({ count: state.count + 1 })),
+      })
+    );
+    const first = createCounterStore();
+    const second = createCounterStore({ count: 10 });
+
+    first.actions.increment();
+
+    expect(first.getState()).toEqual({ count: 1 });
+    expect(second.getState()).toEqual({ count: 10 });
+  });
+
+  it("should hydrate server markup with the server state, then update", async () => {
+    const serverStore = createStoreFactory(() => ({ count: 0 }))({ count: 5 });
+    const container = document.createElement("div");
+    container.innerHTML = renderToString(renderCount(serverStore));
+
+    // The client store is created from the serialized state, then changes
+    // before React hydrates the markup.
+    const clientStore = createStoreFactory(() => ({ count: 0 }))(
+      JSON.parse(JSON.stringify(serverStore.getState()))
+    );
+    clientStore.setState({ count: 6 });
+
+    const onRecoverableError = jest.fn();
+    let root: Root;
+    await act(async () => {
+      root = hydrateRoot(container, renderCount(clientStore), {
+        onRecoverableError,
       });
-    } else {
-      // Since `destroy` is not attached to the hook, we can test the subscription cleanup
-      // which is the main purpose of `destroy`. Let's clear listeners manually.
-      const listeners = (useStore as any).__private_get_listeners(); // Hypothetical getter for testing
-      if (listeners) listeners.clear();
-    }
+    });
+
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(container.textContent).toBe("6");
+    act(() => root.unmount());
+  });
+
+  it("should hydrate with the initial state when no state was hydrated", async () => {
+    const container = document.createElement("div");
+    container.innerHTML = renderToString(
+      renderCount(createStore({ count: 0 }))
+    );
+    const clientStore = createStore({ count: 0 });
+    clientStore.setState({ count: 2 });
+
+    const onRecoverableError = jest.fn();
+    let root: Root;
+    await act(async () => {
+      root = hydrateRoot(container, renderCount(clientStore), {
+        onRecoverableError,
+      });
+    });
+
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(container.textContent).toBe("2");
+    act(() => root.unmount());
+  });
+});
+
+describe("createStoreContext", () => {
+  const CounterContext = createStoreContext(
+    () => ({ count: 0, label: "counter" }),
+    (set) => ({
+      increment: () => set((state) => ({ ...state, count: state.count + 1 })),
+    })
+  );
+
+  const withProvider =
+    (props: Omit<StoreProviderProps<any, any>, "children"> = {}) =>
+    ({ children }: { children?: ReactNode }) =>
+      createElement(CounterContext.Provider, props, children);
+
+  it("should read state from the nearest Provider", () => {
+    const { result } = renderHook(
+      () => CounterContext.useStore((state) => state.count),
+      { wrapper: withProvider() }
+    );
+
+    expect(result.current).toBe(0);
+  });
+
+  it("should give each Provider its own store instance", () => {
+    const first = renderHook(() => CounterContext.useStoreApi(), {
+      wrapper: withProvider(),
+    });
+    const second = renderHook(() => CounterContext.useStoreApi(), {
+      wrapper: withProvider(),
+    });
 
-    // Try to update state again
     act(() => {
-      useStore.setState({ count: 2 });
+      first.result.current.actions.increment();
     });
 
-    // The internal state value will change, but listeners will not be called.
-    expect(useStore.getState().count).toBe(2);
-    // The hook's value should NOT have updated because its listener was removed.
-    expect(result.current.count).toBe(1);
-    // The direct listener should NOT have been called again.
-    expect(directListener).toHaveBeenCalledTimes(1);
+    expect(first.result.current).not.toBe(second.result.current);
+    expect(first.result.current.getState().count).toBe(1);
+    expect(second.result.current.getState().count).toBe(0);
   });
 
-  it("should subscribe and unsubscribe a listener correctly", () => {
-    const useStore = createStore({ count: 0 });
-    const listener = jest.fn();
+  it("should keep selector and equality semantics", () => {
+    let renderCount = 0;
+    const { result } = renderHook(
+      () => {
+        renderCount++;
+        const store = CounterContext.useStoreApi();
+        const selection = CounterContext.useStore(
+          (state) => ({ count: state.count }),
+          shallow
+        );
+        return { store, selection };
+      },
+      { wrapper: withProvider() }
+    );
 
-    // Subscribe the listener and get the unsubscribe function
-    const unsubscribe = useStore.subscribe(listener);
+    act(() => {
+      result.current.store.setState((state) => ({ ...state, label: "x" }));
+    });
+    expect(renderCount).toBe(1);
 
     act(() => {
-      useStore.setState({ count: 1 });
+      result.current.store.actions.increment();
     });
-    expect(listener).toHaveBeenCalledTimes(1);
-    expect(listener).toHaveBeenCalledWith({ count: 1 });
+    expect(renderCount).toBe(2);
+    expect(result.current.selection).toEqual({ count: 1 });
+  });
+
+  it("should hydrate the Provider's store with initialState", () => {
+    const { result } = renderHook(() => CounterContext.useStore(), {
+      wrapper: withProvider({ initialState: { count: 7, label: "server" } }),
+    });
+
+    expect(result.current).toEqual({ count: 7, label: "server" });
+  });
+
+  it("should provide a store passed to the Provider", () => {
+    const fakeStore = createStore(
+      { count: 42, label: "fake" },
+      { actions: () => ({ increment: () => {} }) }
+    );
+    const { result } = renderHook(
+      () => CounterContext.useStore((state) => state.label),
+      { wrapper: withProvider({ store: fakeStore }) }
+    );
 
+    expect(result.current).toBe("fake");
     act(() => {
-      useStore.setState({ count: 2 });
+      fakeStore.setState({ count: 42, label: "updated" });
     });
-    expect(listener).toHaveBeenCalledTimes(2);
-    expect(listener).toHaveBeenCalledWith({ count: 2 });
+    expect(result.current).toBe("updated");
+  });
+
+  it("should throw when used outside of a Provider", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation();
+
+    expect(() => renderHook(() => CounterContext.useStore())).toThrow(
+      "outside of its Provider"
+    );
+    consoleError.mockRestore();
+  });
+});
+
+describe("derived", () => {
+  const createShop = () => {
+    const useCartStore = createStore({ items: [10, 20], note: "" });
+    const useUserStore = createStore({ discount: 0.5, name: "John" });
+    const combine = jest.fn(
+      (cart: { items: number[] }, user: { discount: number }) =>
+        cart.items.reduce((sum, price) => sum + price, 0) * (1 - user.discount)
+    );
+    const useTotal = derived([useCartStore, useUserStore], combine);
+    return { useCartStore, useUserStore, useTotal, combine };
+  };
+
+  it("should compute its state from its sources", () => {
+    const { useCartStore, useTotal } = createShop();
+
+    expect(useTotal.getState()).toBe(15);
+
+    useCartStore.setState((state) => ({
+      ...state,
+      items: [...state.items, 30],
+    }));
+    expect(useTotal.getState()).toBe(30);
+  });
+
+  it("should only recompute when a source changes", () => {
+    const { useUserStore, useTotal, combine } = createShop();
+
+    useTotal.getState();
+    useTotal.getState();
+    expect(combine).toHaveBeenCalledTimes(1);
+
+    useUserStore.setState((state) => ({ ...state, discount: 0 }));
+    expect(combine).toHaveBeenCalledTimes(1);
+    expect(useTotal.getState()).toBe(30);
+    expect(combine).toHaveBeenCalledTimes(2);
+  });
+
+  it("should notify subscribers only when its value changes", () => {
+    const { useCartStore, useUserStore, useTotal } = createShop();
+    const listener = jest.fn();
+    const unsubscribe = useTotal.subscribe(listener);
+
+    useCartStore.setState((state) => ({ ...state, note: "gift" }));
+    expect(listener).not.toHaveBeenCalled();
+
+    useUserStore.setState((state) => ({ ...state, discount: 0 }));
+    expect(listener).toHaveBeenCalledWith(30);
 
-    // Unsubscribe
     unsubscribe();
+    useUserStore.setState((state) => ({ ...state, discount: 0.1 }));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should re-render components using the derived hook", () => {
+    const { useCartStore, useTotal } = createShop();
+    let renderCount = 0;
+    const { result } = renderHook(() => {
+      renderCount++;
+      return useTotal();
+    });
 
-    // This update should not trigger the listener
     act(() => {
-      useStore.setState({ count: 3 });
+      useCartStore.setState((state) => ({ ...state, note: "gift" }));
     });
-    expect(listener).toHaveBeenCalledTimes(2); // Not called again
-    expect(useStore.getState().count).toBe(3);
+    expect(renderCount).toBe(1);
+
+    act(() => {
+      useCartStore.setState((state) => ({ ...state, items: [100] }));
+    });
+    expect(renderCount).toBe(2);
+    expect(result.current).toBe(50);
+  });
+
+  it("should support selectors on the derived hook", () => {
+    const useStore = createStore({ todos: [{ done: true }, { done: false }] });
+    const useStats = derived([useStore], (state) => ({
+      done: state.todos.filter((todo) => todo.done).length,
+      total: state.todos.length,
+    }));
+
+    const { result } = renderHook(() => useStats((stats) => stats.done));
+
+    expect(result.current).toBe(1);
+    act(() => {
+      useStore.setState({ todos: [{ done: true }, { done: true }] });
+    });
+    expect(result.current).toBe(2);
+  });
+
+  it("should chain derived stores", () => {
+    const { useCartStore, useTotal } = createShop();
+    const useTotalWithTax = derived([useTotal], (total) => total * 1.2);
+    const listener = jest.fn();
+    useTotalWithTax.subscribe(listener);
+
+    expect(useTotalWithTax.getState()).toBe(18);
+    useCartStore.setState((state) => ({ ...state, items: [100] }));
+
+    expect(listener).toHaveBeenCalledWith(60);
+  });
+
+  it("should keep the previous value when equalityFn matches", () => {
+    const useStore = createStore({ a: 1, b: 2, c: 3 });
+    const usePair = derived(
+      [useStore],
+      (state) => ({ a: state.a, b: state.b }),
+      shallow
+    );
+    const listener = jest.fn();
+    usePair.subscribe(listener);
+    const first = usePair.getState();
+
+    useStore.setState((state) => ({ ...state, c: 4 }));
+
+    expect(usePair.getState()).toBe(first);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should stop watching its sources after destroy", () => {
+    const { useUserStore, useTotal } = createShop();
+    const listener = jest.fn();
+    useTotal.subscribe(listener);
+
+    useTotal.destroy();
+    useUserStore.setState((state) => ({ ...state, discount: 0 }));
+
+    expect(listener).not.toHaveBeenCalled();
   });
-});
\ No newline at end of file
+});
@@ -1,148 +1,3490 @@
-import { useCallback, useRef, useSyncExternalStore } from "react";
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type { ReactElement, ReactNode } from "react";
 
 // --- TYPE DEFINITIONS ---
 
 type Listener<T> = (state: T) => void;
 type Selector<T, R> = (state: T) => R;
 type StateUpdater<T> = (state: T) => T;
-type SetState<T> = (updater: StateUpdater<T> | T) => void;
+/** Mutates a draft of the state; see `produce`. */
+type Recipe<T> = (draft: T) => void;
+/**
+ * A nested partial of `T`, as accepted by `patchDeep`. Arrays and other
+ * non-plain values can only be replaced as a whole.
+ */
+type DeepPartial<T> = T extends
+  | readonly unknown[]
+  | Date
+  | RegExp
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ((...args: any[]) => unknown)
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> | undefined }
+    : T;
+
+type EqualityFn<T> = (a: T, b: T) => boolean;
+
+/**
+ * Describes why a state update happened. Middleware receives it alongside
+ * every update, so plugins can attach their own fields.
+ */
+interface UpdateMeta {
+  /** A human-readable label for the update, e.g. `"increment"`. */
+  action?: string;
+  [key: string]: unknown;
+}
+
+type SetState<T> = (updater: StateUpdater<T> | T, meta?: UpdateMeta) => void;
+
+/** A listener that also receives the previous state and the update's metadata. */
+type ChangeListener<T> = (state: T, prevState: T, meta: UpdateMeta) => void;
+
+/** A listener for a selected slice of the state, called when it changes. */
+type SelectionListener<S> = (selected: S, prevSelected: S) => void;
+
+interface SubscribeOptions<S> {
+  /** Decides whether the selected value changed. Defaults to `Object.is`. */
+  equalityFn?: EqualityFn<S>;
+  /**
+   * Calls the listener once on subscribing, with the current selection as
+   * both the value and the previous value.
+   */
+  fireImmediately?: boolean;
+}
+
+/**
+ * Runs when a reaction's selected value changes. May return a cleanup
+ * function, which runs before the next effect and when the reaction is
+ * disposed.
+ */
+type ReactionEffect<S> = (value: S, prevValue: S) => void | (() => void);
+
+interface ReactionOptions<S> extends SubscribeOptions<S> {
+  /** Waits until the value has stopped changing for this many milliseconds. */
+  debounce?: number;
+  /** Runs the effect at most once per this many milliseconds. */
+  throttle?: number;
+}
+
+/**
+ * The part of a store a middleware wraps. `setState` receives the already
+ * resolved next state; until it is passed on, `getState` still returns the
+ * previous state.
+ */
+interface MiddlewareApi<T> {
+  getState: () => T;
+  setState: (nextState: T, meta: UpdateMeta) => void;
+  subscribe: (listener: ChangeListener<T>) => () => void;
+}
+
+/**
+ * A middleware receives the next layer of the store and returns replacements
+ * for any of its methods. Methods it doesn't return are passed through.
+ */
+type Middleware<T> = (api: MiddlewareApi<T>) => Partial<MiddlewareApi<T>>;
+
+/** A serializable copy of a store's state, tagged with its schema version. */
+interface Snapshot<T> {
+  state: T;
+  version: number;
+}
+
+/**
+ * An ordered chain of migrations, each upgrading state from one schema
+ * version to the next. Registries are immutable; `add` returns a new one.
+ */
+interface MigrationRegistry<T> {
+  /** The schema version `migrate` upgrades state to. */
+  readonly version: number;
+  /**
+   * Adds a migration from the registry's current version to `version`,
+   * which must be the next one.
+   */
+  add: <N>(version: number, migration: (state: T) => N) => MigrationRegistry<N>;
+  /**
+   * Upgrades state saved under `fromVersion` to the registry's version.
+   * Throws a `MigrationError` if no chain of migrations leads there.
+   */
+  migrate: (state: unknown, fromVersion: number) => T;
+}
+
+/** A record of named functions that update a store. */
+type Actions = Record<string, (...args: any[]) => unknown>;
+
+/**
+ * Defines a store's actions. Updates made through `set` while an action
+ * runs are labelled with the action's name, unless `meta.action` is given.
+ */
+type ActionsCreator<T, A extends Actions> = (set: SetState<T>, get: () => T) => A;
+
+interface StoreOptions<T, A extends Actions = Record<never, never>> {
+  /** Named actions attached to the store as `store.actions`. */
+  actions?: ActionsCreator<T, A>;
+  /**
+   * Middleware applied to the store, outermost first: the first middleware
+   * sees every update before the ones after it.
+   */
+  middleware?: Middleware<T>[];
+  /**
+   * Migrations applied to snapshots loaded into the store. The registry's
+   * version is the store's schema version; without it, the version is `0`.
+   */
+  migrations?: MigrationRegistry<T>;
+  /**
+   * Registers the store under this name, for lookup with `getStore` and as
+   * its default name in DevTools.
+   */
+  name?: string;
+  /**
+   * Called when the store gets its first subscriber, e.g. when the first
+   * component using it mounts. May return a cleanup function, which runs
+   * when the store loses its last subscriber.
+   */
+  onActivate?: (store: StoreHook<T, A>) => void | (() => void);
+  /** Called when the store loses its last subscriber. */
+  onDeactivate?: (store: StoreHook<T, A>) => void;
+}
 
 interface Store<T> {
   getState: () => T;
   setState: SetState<T>;
-  subscribe: (listener: Listener<T>) => () => void;
+  subscribe: {
+    (listener: Listener<T>): () => void;
+    /**
+     * Calls `listener` only when the slice picked by `selector` changes,
+     * with the new and the previous selection.
+     */
+    <S>(
+      selector: Selector<T, S>,
+      listener: SelectionListener<S>,
+      options?: SubscribeOptions<S>
+    ): () => void;
+  };
+  /**
+   * Like `subscribe`, but the listener also receives the previous state and
+   * the metadata of the update that caused the change.
+   */
+  onChange: (listener: ChangeListener<T>) => () => void;
+  /**
+   * Removes every listener, runs the `onDestroy` callbacks and stops the
+   * store: later updates and subscriptions are ignored, with a warning
+   * outside production.
+   */
+  destroy: () => void;
+  /** Whether `destroy` has been called. */
+  readonly destroyed: boolean;
+  /**
+   * Registers a callback to run when the store is destroyed, e.g. for a
+   * plugin to release its resources. Returns a function that unregisters
+   * it. On a destroyed store, the callback runs immediately.
+   */
+  onDestroy: (callback: () => void) => () => void;
+  /** Sets the state back to the store's initial state. */
+  reset: () => void;
+  /**
+   * Replaces the state with one rendered on the server. Until the next
+   * `hydrate`, components hydrating server markup read this state, so they
+   * match it even if the store changed in between.
+   */
+  hydrate: (state: T) => void;
+  /** Returns the current state tagged with the store's schema version. */
+  toSnapshot: () => Snapshot<T>;
+  /**
+   * Replaces the state with a snapshot's, migrating it first if it was
+   * taken under another schema version.
+   */
+  loadSnapshot: (snapshot: Snapshot<unknown>) => void;
+  /**
+   * Merges some keys into the state, leaving the others as they are.
+   * Unlike `setState`, which replaces the whole state.
+   */
+  patch: (
+    partial: Partial<T> | ((state: T) => Partial<T>),
+    meta?: UpdateMeta
+  ) => void;
+  /**
+   * Merges a nested partial into the state. Plain objects are merged
+   * recursively; arrays and other values replace the current value, and
+   * `undefined` values are skipped.
+   */
+  patchDeep: (
+    partial: DeepPartial<T> | ((state: T) => DeepPartial<T>),
+    meta?: UpdateMeta
+  ) => void;
+  /**
+   * Updates the state by mutating a draft of it, like `produce`. Only the
+   * objects and arrays along changed paths are copied.
+   */
+  update: (recipe: Recipe<T>, meta?: UpdateMeta) => void;
+  /**
+   * Runs several updates as one: they are made on a local draft and
+   * committed with a single notification when `callback` returns. If it
+   * calls `tx.abort()` or throws, nothing is committed. Returns what
+   * `callback` returns, or `undefined` if it was aborted. While it runs,
+   * `getState` returns the draft, and other updates to the store, such as
+   * actions or nested transactions, are made on it.
+   */
+  transaction: <R>(
+    callback: (tx: Transaction<T>) => R,
+    meta?: UpdateMeta
+  ) => R | undefined;
+}
+
+/** The draft state a `store.transaction` callback works on. */
+interface Transaction<T> {
+  /** Returns the transaction's current draft state. */
+  get: () => T;
+  /** Updates the draft state, like `setState`. */
+  set: (updater: T | StateUpdater<T>) => void;
+  /** Discards the transaction's updates and stops the callback. */
+  abort: () => never;
+}
+
+interface StoreHook<T, A extends Actions = Record<never, never>>
+  extends Store<T> {
+  (): T;
+  <R>(selector: Selector<T, R>, equalityFn?: EqualityFn<R>): R;
+  /** The actions defined with the store's `actions` option. */
+  actions: A;
+}
+
+/**
+ * A key-value backend for `persist`. Each method may return its result
+ * directly or as a promise, so async backends work as well.
+ */
+interface StorageAdapter {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+interface PersistOptions<T, P = T> {
+  /** The storage key the state is saved under. */
+  key: string;
+  /** Where to save the state. Defaults to `localStorageAdapter`. */
+  storage?: StorageAdapter;
+  /** Picks the part of the state to save. Defaults to the whole state. */
+  partialize?: (state: T) => P;
+  /** The version saved with the state. Defaults to the store's version. */
+  version?: number;
+  /**
+   * Upgrades state saved under an older version. Without it, such state is
+   * upgraded by the store's migrations when the whole state is saved under
+   * the store's version, and discarded otherwise.
+   */
+  migrate?: (persistedState: unknown, version: number) => P;
+}
+
+interface PersistApi {
+  /** Whether the saved state has been loaded into the store. */
+  hasHydrated: () => boolean;
+  /** Registers a listener called whenever hydration finishes. */
+  onHydrated: (listener: () => void) => () => void;
+  /** Loads the saved state into the store again. */
+  rehydrate: () => Promise<void>;
+  /** Removes the saved state from storage. */
+  clearStorage: () => Promise<void>;
+  /** Stops saving state changes. */
+  destroy: () => void;
+}
+
+interface HistoryOptions<T> {
+  /** The maximum number of undo steps kept. Defaults to `100`. */
+  limit?: number;
+  /**
+   * Returns a group key for an update. Consecutive updates with the same
+   * key (other than `undefined`) are recorded as a single undo step.
+   */
+  groupBy?: (meta: UpdateMeta, state: T, prevState: T) => unknown;
+  /** Returns `false` for updates that shouldn't be recorded. */
+  filter?: (meta: UpdateMeta, state: T, prevState: T) => boolean;
+}
+
+interface HistoryStatus {
+  canUndo: boolean;
+  canRedo: boolean;
+  pastCount: number;
+  futureCount: number;
+}
+
+interface History {
+  /** Restores the state before the latest recorded step. */
+  undo: () => void;
+  /** Reapplies the latest undone step. */
+  redo: () => void;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  /** Forgets all recorded steps. */
+  clear: () => void;
+  /**
+   * Starts recording every update as part of one undo step, until the
+   * matching `endGroup` call. Groups can be nested.
+   */
+  beginGroup: () => void;
+  endGroup: () => void;
+  /** A hook that re-renders the component when the history changes. */
+  useHistory: () => HistoryStatus;
+  /** Stops recording updates. */
+  destroy: () => void;
+}
+
+interface DevtoolsOptions {
+  /**
+   * The instance name shown in the extension. Defaults to the store's
+   * registered `name`.
+   */
+  name?: string;
+}
+
+/** A message the Redux DevTools extension sends to a connection. */
+interface DevtoolsMessage {
+  type: string;
+  payload?: any;
+  state?: string;
+}
+
+/** A connection to a Redux DevTools extension instance. */
+interface DevtoolsConnection {
+  init: (state: unknown) => void;
+  send: (action: { type: string } | null, state: unknown) => void;
+  subscribe: (listener: (message: DevtoolsMessage) => void) => (() => void) | void;
+  unsubscribe?: () => void;
+}
+
+/** The global `window.__REDUX_DEVTOOLS_EXTENSION__` object. */
+interface DevtoolsExtension {
+  connect: (options: { name?: string }) => DevtoolsConnection;
+  disconnect?: () => void;
+}
+
+interface DevtoolsApi {
+  /** Whether the extension was found and the store is connected. */
+  readonly connected: boolean;
+  /** Stops sending updates and handling messages from the extension. */
+  destroy: () => void;
+}
+
+interface SyncTabsOptions<T, P = T> {
+  /** The channel name. Stores syncing on the same channel share updates. */
+  channel: string;
+  /** Picks the part of the state to share. Defaults to the whole state. */
+  partialize?: (state: T) => P;
+  /**
+   * Combines the local state with state received from another tab.
+   * Defaults to merging the remote state over the local one.
+   */
+  conflict?: (localState: T, remoteState: P) => T;
+}
+
+interface SyncTabsApi {
+  /**
+   * How updates are exchanged: a `BroadcastChannel`, `storage` events as a
+   * fallback, or not at all outside the browser.
+   */
+  readonly transport: "broadcast-channel" | "storage" | "none";
+  /** Stops sending and receiving updates. */
   destroy: () => void;
 }
 
-interface StoreHook<T> extends Store<T> {
+type AsyncStatus = "idle" | "pending" | "success" | "error";
+
+/** The status of an async action's latest call. */
+interface AsyncActionStatus<R> {
+  status: AsyncStatus;
+  /** The result of the last successful call. */
+  data: R | undefined;
+  /** The error the latest call failed with, if it did. */
+  error: unknown;
+}
+
+interface AsyncActionOptions {
+  /** Aborts pending calls whenever the action is called again. */
+  latestOnly?: boolean;
+}
+
+/** An async function with status tracking, created by `asyncAction`. */
+interface AsyncAction<Args extends unknown[], R> {
+  (...args: Args): Promise<R>;
+  /** Returns the status of the latest call. */
+  getStatus: () => AsyncActionStatus<R>;
+  /** Calls `listener` whenever the status changes. */
+  subscribe: (listener: () => void) => () => void;
+  /** Aborts every pending call. */
+  abort: () => void;
+}
+
+/** The status of a resource's latest fetch. */
+interface ResourceStatus {
+  status: AsyncStatus;
+  /** The error the latest fetch failed with, if it did. */
+  error: unknown;
+}
+
+/** Data loaded into a store key, created by `createResource`. */
+interface Resource<V> {
+  /**
+   * Starts fetching unless the value is already loaded or loading, e.g. to
+   * preload it before rendering.
+   */
+  load: () => Promise<V>;
+  /**
+   * Fetches the value again. Components keep showing the current value
+   * until the new one arrives.
+   */
+  refetch: () => Promise<V>;
+  /**
+   * Discards the loaded value's status, so components using the resource
+   * suspend and fetch it again.
+   */
+  invalidate: () => void;
+  /** Returns the status of the latest fetch. */
+  getStatus: () => ResourceStatus;
+  /** Calls `listener` whenever the status changes. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/** Identifies a query; arrays with equal JSON-like contents match. */
+type QueryKey = readonly unknown[];
+
+interface QueryClientOptions {
+  /** How long fetched data stays fresh, in milliseconds. Defaults to `0`. */
+  staleTime?: number;
+  /**
+   * How long a query nobody uses stays cached, in milliseconds. Defaults to
+   * five minutes.
+   */
+  cacheTime?: number;
+}
+
+interface QueryOptions<D> extends QueryClientOptions {
+  queryKey: QueryKey;
+  /** Fetches the data, given the query key and an `AbortSignal`. */
+  queryFn: (context: { queryKey: QueryKey; signal: AbortSignal }) => Promise<D>;
+  /** Set to `false` to stop `useQuery` from fetching. Defaults to `true`. */
+  enabled?: boolean;
+}
+
+/** The cached state of a query. */
+interface QueryState<D> {
+  /** `pending` until data is fetched for the first time. */
+  status: "pending" | "success" | "error";
+  data: D | undefined;
+  /** The error the latest fetch failed with, if it did. */
+  error: unknown;
+  /** Whether a fetch is in flight, including background refetches. */
+  isFetching: boolean;
+  /** When the data was last fetched or set, as a timestamp. */
+  updatedAt: number;
+}
+
+interface QueryResult<D> extends QueryState<D> {
+  /** Fetches the query again, even if its data is fresh. */
+  refetch: () => Promise<D>;
+}
+
+/** A cache of server state, created by `createQueryClient`. */
+interface QueryClient {
+  /** Returns the query's data, fetching it unless cached data is fresh. */
+  fetchQuery: <D>(options: QueryOptions<D>) => Promise<D>;
+  getQueryData: <D>(queryKey: QueryKey) => D | undefined;
+  /** Replaces a query's data, e.g. with the response of a mutation. */
+  setQueryData: <D>(
+    queryKey: QueryKey,
+    updater: D | ((data: D | undefined) => D)
+  ) => void;
+  /**
+   * Marks the queries whose keys start with `queryKey` (all queries if
+   * omitted) as stale, and refetches those in use.
+   */
+  invalidateQueries: (queryKey?: QueryKey) => Promise<void>;
+  /**
+   * Aborts every fetch and empties the cache. Queries in use are reset to
+   * `pending` and refetched, rather than removed.
+   */
+  clear: () => void;
+}
+
+interface MutationOptions<V, D> {
+  mutationFn: (variables: V) => Promise<D>;
+  onSuccess?: (data: D, variables: V) => void;
+  onError?: (error: unknown, variables: V) => void;
+  /** Queries to invalidate after the mutation succeeds. */
+  invalidates?: QueryKey[];
+}
+
+interface MutationResult<V, D> {
+  status: AsyncStatus;
+  data: D | undefined;
+  error: unknown;
+  /** Runs the mutation. Failures are reported through `error`. */
+  mutate: (variables: V) => void;
+  /** Runs the mutation and returns its result, rejecting if it fails. */
+  mutateAsync: (variables: V) => Promise<D>;
+  /** Goes back to `idle`, forgetting the last result. */
+  reset: () => void;
+}
+
+/** A store that can be read and subscribed to, but not updated. */
+interface ReadonlyStoreHook<T> {
   (): T;
-  <R>(selector: Selector<T, R>): R;
+  <R>(selector: Selector<T, R>, equalityFn?: EqualityFn<R>): R;
+  getState: () => T;
+  subscribe: (listener: Listener<T>) => () => void;
+  destroy: () => void;
+}
+
+/** Maps a tuple of stores to the tuple of their states. */
+type StatesOf<S extends readonly ReadonlyStoreHook<any>[]> = {
+  [K in keyof S]: S[K] extends ReadonlyStoreHook<infer T> ? T : never;
+};
+
+interface StoreProviderProps<T, A extends Actions> {
+  children?: ReactNode;
+  /** State to hydrate the `Provider`'s store with, e.g. from the server. */
+  initialState?: T;
+  /** A store to provide instead of creating one, e.g. a fake in tests. */
+  store?: StoreHook<T, A>;
+}
+
+interface StoreContext<T, A extends Actions> {
+  Provider: (props: StoreProviderProps<T, A>) => ReactElement;
+  /** Reads the nearest `Provider`'s store, like a global store hook. */
+  useStore: {
+    (): T;
+    <R>(selector: Selector<T, R>, equalityFn?: EqualityFn<R>): R;
+  };
+  /** Returns the nearest `Provider`'s store, e.g. to call its actions. */
+  useStoreApi: () => StoreHook<T, A>;
+}
+
+/** A memoized selector per argument, created by `memoFamily`. */
+interface MemoFamily<T, A, R> {
+  /** Returns the memoized selector for `arg`, creating it on first use. */
+  (arg: A): (state: T) => R;
+  /** Drops the cached selector for `arg`. */
+  delete: (arg: A) => void;
+  /** Drops every cached selector. */
+  clear: () => void;
 }
 
 // --- CORE STORE IMPLEMENTATION ---
 
+// Warns about misuse of the library, except in production builds.
+const warn = (message: string) => {
+  if (typeof process !== "undefined" && process.env.NODE_ENV === "production") {
+    return;
+  }
+  console.warn(`[react-foam] ${message}`);
+};
+
+// Notifications deferred by `batch`, keyed by store so each store notifies
+// its listeners at most once per batch.
+let batchDepth = 0;
+const pendingNotifications = new Set<() => void>();
+
 /**
- * Creates a new React Foam store with the given initial state.
+ * Creates a new React Foam store with the given initial state. The store is
+ * added to the store registry until it is destroyed.
  * @param initialState - The initial state of the store.
+ * @param optionsOrActions - Optional store configuration, such as middleware,
+ * or a shorthand for `{ actions }`.
  * @returns A hook that can be used to access and update the store state.
  */
-export function createStore<T extends object>(initialState: T): StoreHook<T> {
+export function createStore<
+  T extends object,
+  A extends Actions = Record<never, never>,
+>(
+  initialState: T,
+  optionsOrActions: StoreOptions<T, A> | ActionsCreator<T, A> = {}
+): StoreHook<T, A> {
+  const store = buildStore(initialState, optionsOrActions);
+  registerStore(
+    store,
+    typeof optionsOrActions === "function" ? undefined : optionsOrActions.name
+  );
+  return store;
+}
+
+// Creates a store without registering it. Scoped stores, created per
+// request or per `Provider`, are built this way so the registry doesn't
+// keep them alive.
+function buildStore<T extends object, A extends Actions>(
+  initialState: T,
+  optionsOrActions: StoreOptions<T, A> | ActionsCreator<T, A>
+): StoreHook<T, A> {
+  const options: StoreOptions<T, A> =
+    typeof optionsOrActions === "function"
+      ? { actions: optionsOrActions }
+      : optionsOrActions;
+
   let state: T = initialState;
-  const listeners = new Set<Listener<T>>();
+  const listeners = new Set<ChangeListener<T>>();
+
+  // The state listeners were last notified with, and the metadata of the
+  // latest update since. Batched updates collapse into one notification.
+  let notifiedState = state;
+  let latestMeta: UpdateMeta = {};
+
+  const notify = () => {
+    const prevState = notifiedState;
+    if (prevState === state) return;
+    notifiedState = state;
+    listeners.forEach((listener) => listener(state, prevState, latestMeta));
+  };
+
+  // Runs the lifecycle callbacks as the store gains its first subscriber
+  // and loses its last one.
+  let active = false;
+  let cleanup: void | (() => void);
+  const activate = () => {
+    if (active) return;
+    active = true;
+    cleanup = options.onActivate?.(useStore as StoreHook<T, A>);
+  };
+  const deactivate = () => {
+    if (!active) return;
+    active = false;
+    const runCleanup = cleanup;
+    cleanup = undefined;
+    runCleanup?.();
+    options.onDeactivate?.(useStore as StoreHook<T, A>);
+  };
+
+  // The function updater `setState` is passing down the middleware chain
+  // and the state it resolved to, so update observers can re-run it.
+  let currentUpdater: StateUpdater<T> | undefined;
+  let resolvedState: T | undefined;
+  const updateObservers = new Set<UpdateObserver<T>>();
+
+  const core: MiddlewareApi<T> = {
+    getState: () => state,
+    setState: (nextState, meta) => {
+      if (nextState !== state) {
+        const prevState = state;
+        state = nextState;
+        latestMeta = meta;
+        // Middleware that replaced the resolved state makes the updater
+        // irrelevant.
+        const updater =
+          nextState === resolvedState ? currentUpdater : undefined;
+        updateObservers.forEach((observer) =>
+          observer(prevState, nextState, meta, updater)
+        );
+        if (batchDepth > 0) {
+          pendingNotifications.add(notify);
+        } else {
+          notify();
+        }
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      if (listeners.size === 1) activate();
+      return () => {
+        if (listeners.delete(listener) && listeners.size === 0) deactivate();
+      };
+    },
+  };
 
-  const getState = (): T => state;
+  // Each middleware wraps the layer built from the middleware after it, so
+  // the first one in the list ends up outermost.
+  const api = (options.middleware ?? []).reduceRight<MiddlewareApi<T>>(
+    (next, middleware) => ({ ...next, ...middleware(next) }),
+    core
+  );
 
-  const setState: SetState<T> = (updater) => {
+  // The draft of the innermost open transaction. While one is open, reads
+  // return it and updates are made on it, including those of nested
+  // transactions, so nothing written during a transaction is lost.
+  let openTransaction: { draft: T } | null = null;
+
+  const getState = (): T =>
+    openTransaction ? openTransaction.draft : api.getState();
+
+  const setState: SetState<T> = (updater, meta = {}) => {
+    if (destroyed) {
+      warn("setState() was called on a destroyed store and was ignored.");
+      return;
+    }
+    const currentState = getState();
     const nextState =
       typeof updater === "function"
-        ? (updater as StateUpdater<T>)(state)
+        ? (updater as StateUpdater<T>)(currentState)
         : updater;
 
-    if (nextState !== state) {
-      state = nextState;
-      listeners.forEach((listener) => listener(state));
+    if (openTransaction) {
+      openTransaction.draft = nextState;
+    } else if (nextState !== currentState) {
+      currentUpdater =
+        typeof updater === "function"
+          ? (updater as StateUpdater<T>)
+          : undefined;
+      resolvedState = nextState;
+      try {
+        api.setState(nextState, meta);
+      } finally {
+        currentUpdater = undefined;
+        resolvedState = undefined;
+      }
     }
   };
 
-  const subscribe = (listener: Listener<T>): (() => void) => {
-    listeners.add(listener);
-    return () => listeners.delete(listener);
+  const subscribe = (<S>(
+    listenerOrSelector: Listener<T> | Selector<T, S>,
+    selectionListener?: SelectionListener<S>,
+    { equalityFn = Object.is, fireImmediately = false }: SubscribeOptions<S> = {}
+  ): (() => void) => {
+    if (destroyed) {
+      warn("subscribe() was called on a destroyed store and was ignored.");
+      return () => {};
+    }
+    if (!selectionListener) {
+      const listener = listenerOrSelector as Listener<T>;
+      return api.subscribe((nextState) => listener(nextState));
+    }
+
+    const selector = listenerOrSelector as Selector<T, S>;
+    let selected = selector(getState());
+    if (fireImmediately) selectionListener(selected, selected);
+    return api.subscribe((nextState) => {
+      const nextSelected = selector(nextState);
+      if (equalityFn(selected, nextSelected)) return;
+      const prevSelected = selected;
+      selected = nextSelected;
+      selectionListener(nextSelected, prevSelected);
+    });
+  }) as Store<T>["subscribe"];
+
+  const patch = (
+    partial: Partial<T> | ((state: T) => Partial<T>),
+    meta?: UpdateMeta
+  ) =>
+    setState((currentState) => {
+      const changes =
+        typeof partial === "function" ? partial(currentState) : partial;
+      return mergeShallow(currentState, changes);
+    }, meta);
+
+  const patchDeep = (
+    partial: DeepPartial<T> | ((state: T) => DeepPartial<T>),
+    meta?: UpdateMeta
+  ) =>
+    setState((currentState) => {
+      const changes =
+        typeof partial === "function"
+          ? (partial as (state: T) => DeepPartial<T>)(currentState)
+          : partial;
+      return mergeDeep(currentState, changes) as T;
+    }, meta);
+
+  const transaction = <R>(
+    callback: (tx: Transaction<T>) => R,
+    meta: UpdateMeta = { action: "transaction" }
+  ): R | undefined => {
+    const frame = { draft: getState() };
+    const parent = openTransaction;
+    openTransaction = frame;
+    let open = true;
+    // Thrown by `abort` to stop the callback, and caught below.
+    const abortSignal = {};
+
+    const assertOpen = () => {
+      if (!open) {
+        throw new Error("[react-foam] The transaction has already finished.");
+      }
+    };
+
+    const tx: Transaction<T> = {
+      get: () => frame.draft,
+      set: (updater) => {
+        assertOpen();
+        frame.draft =
+          typeof updater === "function"
+            ? (updater as StateUpdater<T>)(frame.draft)
+            : updater;
+      },
+      abort: () => {
+        assertOpen();
+        throw abortSignal;
+      },
+    };
+
+    let result: R;
+    try {
+      result = callback(tx);
+    } catch (error) {
+      if (error === abortSignal) return undefined;
+      throw error;
+    } finally {
+      open = false;
+      openTransaction = parent;
+    }
+    if (isPromiseLike(result)) {
+      throw new Error(
+        "[react-foam] transaction() callbacks must be synchronous."
+      );
+    }
+    // Inside another transaction, this commits to its draft.
+    setState(frame.draft, meta);
+    return result;
+  };
+
+  const update = (recipe: Recipe<T>, meta?: UpdateMeta) =>
+    setState((currentState) => produce(currentState, recipe), meta);
+
+  // The name of the innermost action currently running, if any.
+  let runningAction: string | undefined;
+
+  const setFromAction: SetState<T> = (updater, meta) =>
+    setState(
+      updater,
+      runningAction === undefined ? meta : { action: runningAction, ...meta }
+    );
+
+  const definedActions: Actions =
+    options.actions?.(setFromAction, getState) ?? {};
+  const actions: Actions = {};
+  Object.keys(definedActions).forEach((name) => {
+    actions[name] = (...args) => {
+      const outerAction = runningAction;
+      runningAction = name;
+      try {
+        return definedActions[name].apply(actions, args);
+      } finally {
+        runningAction = outerAction;
+      }
+    };
+  });
+
+  const onChange = (listener: ChangeListener<T>): (() => void) => {
+    if (destroyed) {
+      warn("onChange() was called on a destroyed store and was ignored.");
+      return () => {};
+    }
+    return api.subscribe(listener);
+  };
+
+  let destroyed = false;
+  const destroyCallbacks = new Set<() => void>();
+
+  const onDestroy = (callback: () => void): (() => void) => {
+    if (destroyed) {
+      callback();
+      return () => {};
+    }
+    destroyCallbacks.add(callback);
+    return () => destroyCallbacks.delete(callback);
   };
 
   const destroy = () => {
+    if (destroyed) return;
+    destroyed = true;
+    const callbacks = Array.from(destroyCallbacks);
+    destroyCallbacks.clear();
+    callbacks.forEach((callback) => callback());
     listeners.clear();
+    deactivate();
   };
 
-  function useStore(): T;
-  function useStore<R>(selector: Selector<T, R>): R;
-  function useStore<R>(selector?: Selector<T, R>): T | R {
-    const selectorRef = useRef(selector);
-    selectorRef.current = selector;
+  const reset = () => {
+    setState(initialState, { action: "reset" });
+  };
+
+  // The state server markup was rendered with: the hydrated state if there
+  // is one; otherwise the current state on the server and the initial state
+  // in the browser, where stores are created before hydrating.
+  let hydratedState: { state: T } | null = null;
+  const getServerState = (): T => {
+    if (hydratedState) return hydratedState.state;
+    return typeof window === "undefined" ? getState() : initialState;
+  };
+
+  const hydrate = (nextState: T) => {
+    hydratedState = { state: nextState };
+    setState(nextState, { action: "hydrate" });
+  };
+
+  const version = options.migrations?.version ?? 0;
+
+  const toSnapshot = (): Snapshot<T> => ({ state: getState(), version });
+
+  const loadSnapshot = (snapshot: Snapshot<unknown>) => {
+    let nextState: T;
+    if (snapshot.version === version) {
+      nextState = snapshot.state as T;
+    } else if (options.migrations) {
+      nextState = options.migrations.migrate(snapshot.state, snapshot.version);
+    } else {
+      throw new MigrationError(snapshot.version, version);
+    }
+    setState(nextState, { action: "loadSnapshot" });
+  };
 
-    const getSnapshot = useCallback(() => {
-      const currentSelector = selectorRef.current;
-      const currentState = getState();
-      return currentSelector ? currentSelector(currentState) : currentState;
-    }, []);
+  const source: StoreSource<T> = { getState, getServerState, subscribe };
 
-    return useSyncExternalStore(subscribe, getSnapshot);
+  function useStore(): T;
+  function useStore<R>(selector: Selector<T, R>, equalityFn?: EqualityFn<R>): R;
+  function useStore<R>(
+    selector?: Selector<T, R>,
+    equalityFn?: EqualityFn<R>
+  ): T | R {
+    return useStoreSelection(source, selector, equalityFn);
   }
 
   useStore.getState = getState;
   useStore.setState = setState;
   useStore.subscribe = subscribe;
+  useStore.onChange = onChange;
   useStore.destroy = destroy;
+  useStore.onDestroy = onDestroy;
+  useStore.reset = reset;
+  Object.defineProperty(useStore, "destroyed", { get: () => destroyed });
+  useStore.hydrate = hydrate;
+  useStore.toSnapshot = toSnapshot;
+  useStore.loadSnapshot = loadSnapshot;
+  useStore.patch = patch;
+  useStore.patchDeep = patchDeep;
+  useStore.update = update;
+  useStore.transaction = transaction;
+  useStore.actions = actions as A;
+  storeSources.set(useStore, source);
+  storeUpdateObservers.set(useStore, updateObservers);
+  if (options.migrations) storeMigrations.set(useStore, options.migrations);
 
-  return useStore as StoreHook<T>;
+  return useStore as StoreHook<T, A>;
 }
 
-// --- UTILITY FUNCTIONS ---
+// What the store hook reads from a store. Kept out of the public store API
+// so hooks bound to a store elsewhere (e.g. through a context) read the
+// same server state as the store's own hook.
+interface StoreSource<T> {
+  getState: () => T;
+  getServerState: () => T;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Called as a store applies an update, after middleware and before
+// listeners are notified. `updater` is the function that produced the
+// update, if it was made with one and middleware didn't replace its result.
+type UpdateObserver<T> = (
+  prevState: T,
+  nextState: T,
+  meta: UpdateMeta,
+  updater: StateUpdater<T> | undefined
+) => void;
+
+const storeSources = new WeakMap<object, StoreSource<any>>();
+
+// Observers told about every update a store applies, for plugins that need
+// more than `onChange` reports.
+const storeUpdateObservers = new WeakMap<object, Set<UpdateObserver<any>>>();
+
+// The migration registries of stores created with one, so `persist` can
+// migrate saved state without replacing the whole state like
+// `loadSnapshot` does.
+const storeMigrations = new WeakMap<object, MigrationRegistry<any>>();
+
+const getStoreSource = <T>(store: ReadonlyStoreHook<T>): StoreSource<T> =>
+  storeSources.get(store) ?? {
+    getState: store.getState,
+    getServerState: store.getState,
+    subscribe: store.subscribe,
+  };
+
+function useStoreSelection<T, R>(
+  source: StoreSource<T>,
+  selector?: Selector<T, R>,
+  equalityFn?: EqualityFn<R>
+): T | R {
+  const selectorRef = useRef(selector);
+  selectorRef.current = selector;
+  const equalityFnRef = useRef(equalityFn);
+  equalityFnRef.current = equalityFn;
+  const selectionRef = useRef<{ value: R } | null>(null);
+
+  const select = useCallback((currentState: T) => {
+    const currentSelector = selectorRef.current;
+    if (!currentSelector) return currentState;
+
+    const selection = currentSelector(currentState);
+    const isEqual = equalityFnRef.current;
+    const previous = selectionRef.current;
+    // Keep returning the previous selection while the equality function
+    // considers it unchanged, so React sees a stable snapshot.
+    if (isEqual && previous && isEqual(previous.value, selection)) {
+      return previous.value;
+    }
+    selectionRef.current = { value: selection };
+    return selection;
+  }, []);
+
+  const getSnapshot = useCallback(
+    () => select(source.getState()),
+    [source, select]
+  );
+  const getServerSnapshot = useCallback(
+    () => select(source.getServerState()),
+    [source, select]
+  );
+
+  return useSyncExternalStore(
+    source.subscribe,
+    getSnapshot,
+    getServerSnapshot
+  );
+}
 
 /**
- * Creates a memoized selector that automatically tracks property access.
- * This selector will only recompute its result if the tracked properties
- * in the state have changed, preventing re-renders for components that
- * derive new objects or arrays from state.
+ * Defines a store that is instantiated on demand instead of once per module,
+ * e.g. once per server request so state never leaks between requests.
+ * Instances created with state, like the one serialized by the server, are
+ * hydrated with it.
  *
- * @param selector The selector function to memoize.
- * @returns A new, memoized selector for use with `useStore`.
- * @example const derivedState = useStore(memo(state => ({ name: state.user.name })));
+ * @param getInitialState Returns the initial state of a new instance.
+ * @param optionsOrActions Store configuration shared by every instance.
+ * @returns A function creating a new, independent store instance.
+ * @example
+ * const createCartStore = createStoreFactory(() => ({ items: [] }));
+ * const cartStore = createCartStore(window.__CART_STATE__);
  */
-export function memo<T extends object, R>(
-  selector: (state: T) => R
-): (state: T) => R {
-  let hasRun = false;
-  let lastState: T | null = null;
-  let lastResult: R | null = null;
-  let trackedKeys: (keyof T)[] = [];
+export function createStoreFactory<
+  T extends object,
+  A extends Actions = Record<never, never>,
+>(
+  getInitialState: () => T,
+  optionsOrActions?: StoreOptions<T, A> | ActionsCreator<T, A>
+): (serverState?: T) => StoreHook<T, A> {
+  return (serverState) => {
+    const store = buildStore(getInitialState(), optionsOrActions ?? {});
+    if (serverState !== undefined) store.hydrate(serverState);
+    return store;
+  };
+}
 
-  return (state: T): R => {
-    if (!hasRun) {
-      const tracked = new Set<keyof T>();
-      const proxy = new Proxy(state, {
-        get(target, key) {
-          tracked.add(key as keyof T);
-          return Reflect.get(target, key);
-        },
-      });
+// --- STORE CONTEXT ---
 
-      lastResult = selector(proxy);
-      trackedKeys = Array.from(tracked);
-      lastState = state;
-      hasRun = true;
-      return lastResult;
-    }
+/**
+ * Creates a context for stores scoped to a component subtree. Each
+ * `Provider` owns its own store instance, so a widget can be rendered
+ * several times independently, and tests or stories can pass in their own
+ * store. The returned `useStore` reads from the nearest `Provider`, with the
+ * same selector and equality semantics as a global store hook.
+ *
+ * @param getInitialState Returns the initial state of each `Provider`'s store.
+ * @param optionsOrActions Store configuration shared by every instance.
+ * @returns The `Provider` component and hooks to read its store.
+ * @example
+ * const CounterContext = createStoreContext(() => ({ count: 0 }));
+ * const count = CounterContext.useStore(state => state.count);
+ */
+export function createStoreContext<
+  T extends object,
+  A extends Actions = Record<never, never>,
+>(
+  getInitialState: () => T,
+  optionsOrActions?: StoreOptions<T, A> | ActionsCreator<T, A>
+): StoreContext<T, A> {
+  const createInstance = createStoreFactory(getInitialState, optionsOrActions);
+  const Context = createContext<StoreHook<T, A> | null>(null);
 
-    // Subsequent runs: check if any of the tracked properties have changed.
-    const hasChanged = trackedKeys.some(
-      (key) => lastState![key] !== state[key]
+  const Provider = ({
+    children,
+    initialState,
+    store,
+  }: StoreProviderProps<T, A>) => {
+    const [ownStore] = useState(() =>
+      store ? null : createInstance(initialState)
     );
+    return createElement(
+      Context.Provider,
+      { value: store ?? ownStore },
+      children
+    );
+  };
 
-    if (!hasChanged) {
-      // If nothing has changed, return the cached result immediately.
-      return lastResult!;
+  const useStoreApi = (): StoreHook<T, A> => {
+    const store = useContext(Context);
+    if (!store) {
+      throw new Error(
+        "[react-foam] A store context hook was used outside of its Provider."
+      );
     }
-
-    // Otherwise, re-run the selector and update the cache.
-    lastResult = selector(state);
-    lastState = state;
-    return lastResult;
+    return store;
   };
+
+  function useStore(): T;
+  function useStore<R>(selector: Selector<T, R>, equalityFn?: EqualityFn<R>): R;
+  function useStore<R>(
+    selector?: Selector<T, R>,
+    equalityFn?: EqualityFn<R>
+  ): T | R {
+    const store = useStoreApi();
+    return useStoreSelection(getStoreSource(store), selector, equalityFn);
+  }
+
+  return { Provider, useStore, useStoreApi };
 }
 
+// --- STORE REGISTRY ---
+
+// Every live store made with `createStore`, and the names they were given.
+const registeredStores = new Set<StoreHook<any, any>>();
+const namedStores = new Map<string, StoreHook<any, any>>();
+const storeNames = new WeakMap<object, string>();
+
+const registerStore = (store: StoreHook<any, any>, name?: string) => {
+  registeredStores.add(store);
+  if (name !== undefined) {
+    if (namedStores.has(name)) {
+      warn(`A store named "${name}" already exists and was replaced.`);
+    }
+    namedStores.set(name, store);
+    storeNames.set(store, name);
+  }
+
+  store.onDestroy(() => {
+    registeredStores.delete(store);
+    if (name !== undefined && namedStores.get(name) === store) {
+      namedStores.delete(name);
+    }
+  });
+};
+
 /**
- * Creates a non-reactive function that computes a value from a store's state.
- * @param store The store hook to read from.
- * @param selector The function to compute the value.
- * @returns A function that returns the latest computed value when called.
+ * Returns the live store registered under `name`, if any.
+ * @param name The `name` option the store was created with.
+ * @returns The store, or `undefined` if there is none or it was destroyed.
  */
-export function computed<T extends object, R>(
-  store: StoreHook<T>,
-  selector: Selector<T, R>
-): () => R {
-  return () => selector(store.getState());
+export function getStore<
+  T extends object = any,
+  A extends Actions = Record<never, never>,
+>(name: string): StoreHook<T, A> | undefined {
+  return namedStores.get(name);
+}
+
+/**
+ * Returns every live store created with `createStore`, in creation order.
+ * Stores from `createStoreFactory` and `createStoreContext` are scoped to a
+ * request or a `Provider` and aren't included.
+ */
+export function getStores(): StoreHook<any, any>[] {
+  return Array.from(registeredStores);
+}
+
+/**
+ * Resets every live store created with `createStore` to its initial state,
+ * e.g. on logout or between tests. Listeners are notified once, after all
+ * stores are reset.
+ */
+export function resetAllStores(): void {
+  batch(() => registeredStores.forEach((store) => store.reset()));
+}
+
+// --- UTILITY FUNCTIONS ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  isTrackable(value) && !Array.isArray(value);
+
+// Copies `state` with `changes` spread over it, or returns `state` itself if
+// every key in `changes` already has that value.
+const mergeShallow = <T>(state: T, changes: Partial<T>): T => {
+  const keys = Object.keys(changes) as (keyof T)[];
+  const changed = keys.some((key) => !Object.is(state[key], changes[key]));
+  return changed ? { ...state, ...changes } : state;
+};
+
+// Merges `changes` into `target` for `patchDeep`: plain objects are merged
+// recursively, `undefined` values are skipped and anything else, arrays
+// included, replaces the current value. Unchanged branches keep their
+// identity.
+const mergeDeep = (target: unknown, changes: unknown): unknown => {
+  if (!isPlainObject(target) || !isPlainObject(changes)) return changes;
+
+  let result = target;
+  Object.keys(changes).forEach((key) => {
+    if (changes[key] === undefined) return;
+    const merged = mergeDeep(target[key], changes[key]);
+    if (!Object.is(merged, target[key])) {
+      if (result === target) result = shallowCopy(target);
+      result[key] = merged;
+    }
+  });
+  return result;
+};
+
+/**
+ * Compares two values one level deep: objects and arrays are equal if they
+ * have the same keys with `Object.is`-equal values, Maps and Sets if they
+ * have the same entries.
+ *
+ * @example const { name, age } = useUserStore(state => ({ name: state.name, age: state.age }), shallow);
+ */
+export function shallow<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (!isObject(a) || !isObject(b)) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  if (a instanceof Map && b instanceof Map) {
+    if (a.size !== b.size) return false;
+    for (const [key, value] of a) {
+      if (!b.has(key) || !Object.is(value, b.get(key))) return false;
+    }
+    return true;
+  }
+
+  if (a instanceof Set && b instanceof Set) {
+    if (a.size !== b.size) return false;
+    for (const value of a) {
+      if (!b.has(value)) return false;
+    }
+    return true;
+  }
+
+  const keysA = Object.keys(a);
+  if (keysA.length !== Object.keys(b).length) return false;
+  return keysA.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key])
+  );
+}
+
+/**
+ * Compares two values structurally, recursing into objects, arrays, Maps
+ * and Sets. Dates and regular expressions are compared by value. Values
+ * must not contain cycles.
+ *
+ * @example const filters = useSearchStore(state => state.filters, deepEqual);
+ */
+export function deepEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (!isObject(a) || !isObject(b)) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+
+  if (a instanceof RegExp && b instanceof RegExp) {
+    return a.toString() === b.toString();
+  }
+
+  if (a instanceof Map && b instanceof Map) {
+    if (a.size !== b.size) return false;
+    for (const [key, value] of a) {
+      if (!b.has(key) || !deepEqual(value, b.get(key))) return false;
+    }
+    return true;
+  }
+
+  if (a instanceof Set && b instanceof Set) {
+    if (a.size !== b.size) return false;
+    for (const value of a) {
+      if (!b.has(value)) return false;
+    }
+    return true;
+  }
+
+  const keysA = Object.keys(a);
+  if (keysA.length !== Object.keys(b).length) return false;
+  return keysA.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key])
+  );
+}
+
+/**
+ * Runs the callback with store notifications deferred until it returns.
+ * Updates are applied immediately, so `getState()` sees them inside the
+ * callback, but each affected store notifies its listeners only once,
+ * with its final state. Batches can be nested; only the outermost one flushes.
+ *
+ * @param callback The function performing the updates.
+ * @returns The callback's return value.
+ * @example batch(() => { useCartStore.setState(...); useUserStore.setState(...); });
+ */
+export function batch<R>(callback: () => R): R {
+  batchDepth++;
+  try {
+    return callback();
+  } finally {
+    batchDepth--;
+    if (batchDepth === 0) {
+      const notifications = Array.from(pendingNotifications);
+      pendingNotifications.clear();
+      notifications.forEach((notify) => notify());
+    }
+  }
+}
+
+// A property path read by a tracked selector. `keys` marks a read of the
+// object's key set (e.g. `Object.keys`) rather than of the value itself.
+interface TrackedPath {
+  path: string[];
+  keys: boolean;
+}
+
+// Only plain objects and arrays are proxied; anything else (dates, maps,
+// class instances) is tracked by identity.
+const isTrackable = (value: unknown): value is Record<string, unknown> => {
+  if (!isObject(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return (
+    Array.isArray(value) ||
+    prototype === Object.prototype ||
+    prototype === null
+  );
+};
+
+const getPath = (value: unknown, path: string[]): unknown =>
+  path.reduce<unknown>(
+    (current, key) => (isObject(current) ? current[key] : undefined),
+    value
+  );
+
+/**
+ * Runs the selector against a proxy of the state that records every
+ * property path it reads, e.g. `user.name` or `items.3.done`. Only the
+ * deepest paths are kept, so replacing `user` with an equal copy doesn't
+ * count as a change, unless the selector returned `user` itself.
+ */
+function runTracked<T extends object, R>(
+  selector: (state: T) => R,
+  state: T
+): { result: R; tracked: TrackedPath[] } {
+  const reads = new Map<string, TrackedPath>();
+  const escaped = new Set<string>();
+  const proxies = new Map<string, object>();
+  const proxyTargets = new WeakMap<object, { target: object; path: string[] }>();
+
+  const read = (path: string[], keys = false) => {
+    const id = JSON.stringify(path) + (keys ? "#keys" : "");
+    reads.set(id, { path, keys });
+  };
+
+  const track = (value: Record<string, unknown>, path: string[]): object => {
+    const id = JSON.stringify(path);
+    let proxy = proxies.get(id);
+    if (!proxy) {
+      // Like drafts, the proxy wraps an empty stand-in rather than `value`,
+      // which may be frozen, so that reads can return nested proxies.
+      proxy = new Proxy(Array.isArray(value) ? [] : {}, {
+        get(_, key, receiver) {
+          const child = Reflect.get(value, key, receiver);
+          if (typeof key === "symbol") return child;
+          const childPath = [...path, key];
+          read(childPath);
+          return isTrackable(child) ? track(child, childPath) : child;
+        },
+        has(_, key) {
+          if (typeof key !== "symbol") read([...path, key]);
+          return Reflect.has(value, key);
+        },
+        ownKeys() {
+          read(path, true);
+          return Reflect.ownKeys(value);
+        },
+        getOwnPropertyDescriptor(target, key) {
+          const descriptor = Reflect.getOwnPropertyDescriptor(value, key);
+          if (!descriptor) return descriptor;
+          // Array lengths are the only non-configurable properties the
+          // stand-in has, and must be reported as such.
+          const configurable = !(Array.isArray(target) && key === "length");
+          return "value" in descriptor
+            ? { ...descriptor, configurable, writable: true }
+            : { ...descriptor, configurable };
+        },
+        getPrototypeOf() {
+          return Object.getPrototypeOf(value);
+        },
+      });
+      proxies.set(id, proxy);
+      proxyTargets.set(proxy, { target: value, path });
+    }
+    return proxy;
+  };
+
+  // Replaces proxies that ended up in the result with the objects they wrap.
+  // Those objects are now part of the result, so their identity is tracked.
+  // Objects, arrays, maps and sets containing proxies are copied rather
+  // than modified, since they may be frozen or shared.
+  const seen = new Set<object>();
+  const untrack = (value: unknown): unknown => {
+    if (!isObject(value)) return value;
+    const tracked = proxyTargets.get(value);
+    if (tracked) {
+      const id = JSON.stringify(tracked.path);
+      escaped.add(id);
+      reads.set(id, { path: tracked.path, keys: false });
+      return tracked.target;
+    }
+    if (seen.has(value)) return value;
+    seen.add(value);
+    if (value instanceof Map) {
+      let changed = false;
+      const entries = Array.from(value, ([key, item]): [unknown, unknown] => {
+        const entry: [unknown, unknown] = [untrack(key), untrack(item)];
+        if (entry[0] !== key || entry[1] !== item) changed = true;
+        return entry;
+      });
+      return changed ? new Map(entries) : value;
+    }
+    if (value instanceof Set) {
+      let changed = false;
+      const items = Array.from(value, (item) => {
+        const untracked = untrack(item);
+        if (untracked !== item) changed = true;
+        return untracked;
+      });
+      return changed ? new Set(items) : value;
+    }
+    if (!isTrackable(value)) return value;
+    let result = value;
+    Object.keys(value).forEach((key) => {
+      const untracked = untrack(value[key]);
+      if (untracked !== value[key]) {
+        if (result === value) result = shallowCopy(value);
+        result[key] = untracked;
+      }
+    });
+    if (result !== value && Object.isFrozen(value)) Object.freeze(result);
+    return result;
+  };
+
+  // A state that can't be proxied, such as a class instance, is tracked by
+  // identity.
+  if (!isTrackable(state)) {
+    return { result: selector(state), tracked: [{ path: [], keys: false }] };
+  }
+  const result = untrack(selector(track(state, []) as T)) as R;
+
+  // Drop paths that were only read on the way to a deeper one.
+  const prefixes = new Set<string>();
+  reads.forEach(({ path, keys }) => {
+    for (let length = 0; length < path.length + (keys ? 1 : 0); length++) {
+      prefixes.add(JSON.stringify(path.slice(0, length)));
+    }
+  });
+  const tracked = Array.from(reads.values()).filter(({ path, keys }) => {
+    const id = JSON.stringify(path);
+    return keys || escaped.has(id) || !prefixes.has(id);
+  });
+
+  return { result, tracked };
+}
+
+const hasTrackedChanges = (
+  tracked: TrackedPath[],
+  prevState: unknown,
+  nextState: unknown
+): boolean =>
+  tracked.some(({ path, keys }) => {
+    const prevValue = getPath(prevState, path);
+    const nextValue = getPath(nextState, path);
+    if (!keys || !isObject(prevValue) || !isObject(nextValue)) {
+      return !Object.is(prevValue, nextValue);
+    }
+    return !shallow(Object.keys(prevValue), Object.keys(nextValue));
+  });
+
+/**
+ * Creates a memoized selector that automatically tracks property access.
+ * This selector will only recompute its result if the tracked properties
+ * in the state have changed, preventing re-renders for components that
+ * derive new objects or arrays from state.
+ *
+ * Access is tracked at any depth, so `state => state.user.name` only
+ * recomputes when `user.name` changes, not whenever `user` is replaced.
+ * The tracked paths are recorded again on every recompute. State objects
+ * returned inside other containers than plain objects, arrays, maps and
+ * sets, such as class instances, are handed out as tracking proxies, so
+ * selectors shouldn't return them that way.
+ *
+ * @param selector The selector function to memoize.
+ * @returns A new, memoized selector for use with `useStore`.
+ * @example const derivedState = useStore(memo(state => ({ name: state.user.name })));
+ */
+export function memo<T extends object, R>(
+  selector: (state: T) => R
+): (state: T) => R {
+  let cache: { state: T; result: R; tracked: TrackedPath[] } | null = null;
+
+  return (state: T): R => {
+    if (
+      cache &&
+      (cache.state === state ||
+        !hasTrackedChanges(cache.tracked, cache.state, state))
+    ) {
+      // Nothing the selector read has changed: return the cached result.
+      cache.state = state;
+      return cache.result;
+    }
+
+    // Otherwise, re-run the selector and record what it reads this time.
+    const { result, tracked } = runTracked(selector, state);
+    cache = { state, result, tracked };
+    return result;
+  };
+}
+
+// Values that can be used as WeakMap keys.
+const isReference = (value: unknown): value is object =>
+  (typeof value === "object" && value !== null) || typeof value === "function";
+
+/**
+ * Creates a family of memoized selectors that take an argument, such as an
+ * item id. Each argument gets its own `memo` cache, so rows selecting
+ * different items don't evict each other's results. Selectors for object
+ * arguments are held weakly and go away with the argument; selectors for
+ * primitive arguments are kept until `delete` or `clear` is called.
+ *
+ * @param selector The selector to memoize, called with the state and argument.
+ * @returns A function that returns the memoized selector for an argument.
+ * @example const selectTodo = memoFamily((state, id) => state.todos.find(t => t.id === id));
+ * const todo = useTodoStore(selectTodo(id));
+ */
+export function memoFamily<T extends object, A, R>(
+  selector: (state: T, arg: A) => R
+): MemoFamily<T, A, R> {
+  let objectSelectors = new WeakMap<object, (state: T) => R>();
+  const primitiveSelectors = new Map<unknown, (state: T) => R>();
+
+  const family = (arg: A): ((state: T) => R) => {
+    let memoized = isReference(arg)
+      ? objectSelectors.get(arg)
+      : primitiveSelectors.get(arg);
+    if (!memoized) {
+      memoized = memo((state: T) => selector(state, arg));
+      if (isReference(arg)) {
+        objectSelectors.set(arg, memoized);
+      } else {
+        primitiveSelectors.set(arg, memoized);
+      }
+    }
+    return memoized;
+  };
+
+  return Object.assign(family, {
+    delete: (arg: A) => {
+      if (isReference(arg)) {
+        objectSelectors.delete(arg);
+      } else {
+        primitiveSelectors.delete(arg);
+      }
+    },
+    clear: () => {
+      objectSelectors = new WeakMap();
+      primitiveSelectors.clear();
+    },
+  });
+}
+
+/**
+ * Selects memoized data from a store using an argument, typically a prop.
+ * The cache belongs to the calling component, so components passing
+ * different arguments never share or evict each other's results, and it is
+ * released when the component unmounts. The result is recomputed when `arg`
+ * changes or when state the selector read changes; the selector should
+ * depend on nothing but its `state` and `arg`.
+ *
+ * @param store The store hook to select from.
+ * @param selector The selector, called with the state and `arg`.
+ * @param arg The argument passed to the selector.
+ * @param equalityFn Optional comparison used to keep the previous result.
+ * @returns The selected value.
+ * @example const todo = useMemoSelector(useTodoStore, (state, id) => state.todos.find(t => t.id === id), id);
+ */
+export function useMemoSelector<T extends object, A, R>(
+  store: ReadonlyStoreHook<T>,
+  selector: (state: T, arg: A) => R,
+  arg: A,
+  equalityFn?: EqualityFn<R>
+): R {
+  const selectorRef = useRef(selector);
+  selectorRef.current = selector;
+  const cacheRef = useRef<{ arg: A; select: (state: T) => R } | null>(null);
+
+  if (!cacheRef.current || !Object.is(cacheRef.current.arg, arg)) {
+    cacheRef.current = {
+      arg,
+      select: memo((state: T) => selectorRef.current(state, arg)),
+    };
+  }
+
+  return useStoreSelection(
+    getStoreSource(store),
+    cacheRef.current.select,
+    equalityFn
+  ) as R;
+}
+
+/**
+ * Creates a non-reactive function that computes a value from a store's state.
+ * Use `derived` for a value components can subscribe to.
+ * @param store The store hook to read from.
+ * @param selector The function to compute the value.
+ * @returns A function that returns the latest computed value when called.
+ */
+export function computed<T extends object, R>(
+  store: StoreHook<T>,
+  selector: Selector<T, R>
+): () => R {
+  return () => selector(store.getState());
+}
+
+// --- DERIVED STORES ---
+
+/**
+ * Creates a read-only store whose state is computed from other stores.
+ * The value is recomputed lazily, only when read after a source changed,
+ * and subscribers are notified only when it actually changes. Derived
+ * stores can be used as sources of other derived stores.
+ *
+ * @param sources The stores the value is computed from.
+ * @param combine Computes the value from the sources' states.
+ * @param equalityFn Decides whether a recomputed value replaces the
+ * previous one. Defaults to `Object.is`.
+ * @returns A read-only store hook.
+ * @example const useTotal = derived([useCartStore, useUserStore], (cart, user) => cart.total * (1 - user.discount));
+ */
+export function derived<S extends readonly ReadonlyStoreHook<any>[], R>(
+  sources: readonly [...S],
+  combine: (...states: StatesOf<S>) => R,
+  equalityFn: EqualityFn<R> = Object.is
+): ReadonlyStoreHook<R> {
+  // Caches the combined value for as long as every input is unchanged.
+  const createReader = (
+    read: (source: ReadonlyStoreHook<unknown>) => unknown
+  ) => {
+    let lastInputs: unknown[] | null = null;
+    let lastValue: R;
+
+    return (): R => {
+      const inputs = sources.map(read);
+      if (
+        lastInputs &&
+        inputs.every((input, index) => Object.is(input, lastInputs![index]))
+      ) {
+        return lastValue;
+      }
+      const value = combine(...(inputs as StatesOf<S>));
+      if (!lastInputs || !equalityFn(lastValue, value)) lastValue = value;
+      lastInputs = inputs;
+      return lastValue;
+    };
+  };
+
+  const getState = createReader((source) => source.getState());
+  const getServerState = createReader((source) =>
+    getStoreSource(source).getServerState()
+  );
+
+  const listeners = new Set<Listener<R>>();
+  let unsubscribeSources: (() => void)[] = [];
+  let notifiedValue: R;
+
+  const handleSourceChange = () => {
+    const value = getState();
+    if (value === notifiedValue) return;
+    notifiedValue = value;
+    listeners.forEach((listener) => listener(value));
+  };
+
+  // Sources are only watched while the derived store has subscribers.
+  const subscribe = (listener: Listener<R>): (() => void) => {
+    if (listeners.size === 0) {
+      notifiedValue = getState();
+      unsubscribeSources = sources.map((source) =>
+        source.subscribe(handleSourceChange)
+      );
+    }
+    listeners.add(listener);
+
+    return () => {
+      if (listeners.delete(listener) && listeners.size === 0) {
+        unsubscribeSources.forEach((unsubscribe) => unsubscribe());
+        unsubscribeSources = [];
+      }
+    };
+  };
+
+  const destroy = () => {
+    listeners.clear();
+    unsubscribeSources.forEach((unsubscribe) => unsubscribe());
+    unsubscribeSources = [];
+  };
+
+  const source: StoreSource<R> = { getState, getServerState, subscribe };
+
+  function useDerived(): R;
+  function useDerived<V>(
+    selector: Selector<R, V>,
+    equalityFn?: EqualityFn<V>
+  ): V;
+  function useDerived<V>(
+    selector?: Selector<R, V>,
+    selectionEqualityFn?: EqualityFn<V>
+  ): R | V {
+    return useStoreSelection(source, selector, selectionEqualityFn);
+  }
+
+  useDerived.getState = getState;
+  useDerived.subscribe = subscribe;
+  useDerived.destroy = destroy;
+  storeSources.set(useDerived, source);
+
+  return useDerived;
+}
+
+// --- DRAFTS ---
+
+// The bookkeeping behind a draft proxy. `copy` is a shallow copy of `base`
+// made on first access to a nested draft or on first write; `modified`
+// records whether anything below this object was actually written.
+interface DraftNode {
+  base: Record<string, unknown>;
+  copy: Record<string, unknown> | null;
+  modified: boolean;
+  parent: DraftNode | null;
+  revoke: () => void;
+}
+
+const draftNodes = new WeakMap<object, DraftNode>();
+
+const shallowCopy = (
+  value: Record<string, unknown>
+): Record<string, unknown> =>
+  Array.isArray(value)
+    ? (value.slice() as unknown as Record<string, unknown>)
+    : Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+
+/**
+ * Produces the next state by applying a recipe that mutates a draft of the
+ * current one. Writes are copy-on-write: objects and arrays along changed
+ * paths are copied, and everything else is shared with `base`, so
+ * untouched branches stay reference-equal for selectors and `memo`. If the
+ * recipe changes nothing, `base` itself is returned.
+ *
+ * Drafts cover plain objects and arrays; other values (dates, maps, class
+ * instances) must be replaced rather than mutated.
+ *
+ * @param base The state to start from. It is never modified.
+ * @param recipe A function that mutates the draft it receives.
+ * @returns The next state.
+ * @example const next = produce(state, draft => { draft.todos[0].completed = true; });
+ */
+export function produce<T>(base: T, recipe: Recipe<T>): T {
+  if (!isTrackable(base)) {
+    throw new Error(
+      "[react-foam] produce() can only draft plain objects and arrays."
+    );
+  }
+
+  const nodes: DraftNode[] = [];
+
+  const latest = (node: DraftNode) => node.copy ?? node.base;
+
+  const prepareCopy = (node: DraftNode) => {
+    if (!node.copy) node.copy = shallowCopy(node.base);
+    return node.copy;
+  };
+
+  const markModified = (node: DraftNode) => {
+    let current: DraftNode | null = node;
+    while (current && !current.modified) {
+      current.modified = true;
+      prepareCopy(current);
+      current = current.parent;
+    }
+  };
+
+  const read = (node: DraftNode, key: PropertyKey): unknown => {
+    const source = latest(node);
+    const child: unknown = Reflect.get(source, key);
+    if (
+      typeof key === "symbol" ||
+      !Object.prototype.hasOwnProperty.call(source, key)
+    ) {
+      return child;
+    }
+    // Draft nested objects the first time they are read, as long as they
+    // haven't been replaced with a new value.
+    if (
+      isTrackable(child) &&
+      !draftNodes.has(child) &&
+      child === node.base[key as string]
+    ) {
+      const draft = createDraft(child, node);
+      prepareCopy(node)[key as string] = draft;
+      return draft;
+    }
+    return child;
+  };
+
+  const createDraft = (
+    value: Record<string, unknown>,
+    parent: DraftNode | null
+  ): object => {
+    const node: DraftNode = {
+      base: value,
+      copy: null,
+      modified: false,
+      parent,
+      revoke: () => {},
+    };
+    // The proxy wraps an empty stand-in rather than `value`, which may be
+    // frozen, so that the traps are free to return nested drafts.
+    const { proxy, revoke } = Proxy.revocable(
+      (Array.isArray(value) ? [] : {}) as Record<string, unknown>,
+      {
+        get(_, key) {
+          return read(node, key);
+        },
+        set(_, key, value) {
+          const source = latest(node);
+          if (
+            typeof key === "string" &&
+            Object.prototype.hasOwnProperty.call(source, key) &&
+            Object.is(source[key], value)
+          ) {
+            return true;
+          }
+          markModified(node);
+          return Reflect.set(node.copy!, key, value);
+        },
+        deleteProperty(_, key) {
+          if (!Object.prototype.hasOwnProperty.call(latest(node), key)) {
+            return true;
+          }
+          markModified(node);
+          return Reflect.deleteProperty(node.copy!, key);
+        },
+        has(_, key) {
+          return Reflect.has(latest(node), key);
+        },
+        ownKeys() {
+          return Reflect.ownKeys(latest(node));
+        },
+        getOwnPropertyDescriptor(target, key) {
+          const descriptor = Reflect.getOwnPropertyDescriptor(
+            latest(node),
+            key
+          );
+          if (!descriptor) return descriptor;
+          return {
+            ...descriptor,
+            // Array lengths are the only non-configurable properties the
+            // stand-in has, and must be reported as such.
+            configurable: !(Array.isArray(target) && key === "length"),
+            writable: true,
+            value: read(node, key),
+          };
+        },
+        defineProperty() {
+          throw new Error(
+            "[react-foam] Object.defineProperty() is not supported on drafts."
+          );
+        },
+        getPrototypeOf() {
+          return Object.getPrototypeOf(node.base);
+        },
+      }
+    );
+    node.revoke = revoke;
+    nodes.push(node);
+    draftNodes.set(proxy, node);
+    return proxy;
+  };
+
+  // Replaces drafts with their final values. New values assigned by the
+  // recipe may contain drafts too, so those are copied where needed.
+  const finalize = (value: unknown, seen: Set<object>): unknown => {
+    if (!isObject(value)) return value;
+    const node = draftNodes.get(value);
+    if (node) {
+      if (!node.modified) return node.base;
+      const copy = node.copy!;
+      Object.keys(copy).forEach((key) => {
+        if (copy[key] !== node.base[key]) {
+          copy[key] = finalize(copy[key], seen);
+        }
+      });
+      return copy;
+    }
+    if (!isTrackable(value) || seen.has(value)) return value;
+    seen.add(value);
+    let result = value;
+    Object.keys(value).forEach((key) => {
+      const finalized = finalize(value[key], seen);
+      if (finalized !== value[key]) {
+        if (result === value) result = shallowCopy(value);
+        result[key] = finalized;
+      }
+    });
+    return result;
+  };
+
+  try {
+    const draft = createDraft(base, null);
+    recipe(draft as T);
+    return finalize(draft, new Set()) as T;
+  } finally {
+    // Drafts are only valid while the recipe runs.
+    nodes.forEach((node) => node.revoke());
+  }
+}
+
+// --- MIGRATIONS ---
+
+/**
+ * Thrown when state saved under one schema version can't be migrated to
+ * another, because no chain of registered migrations connects them.
+ */
+export class MigrationError extends Error {
+  readonly fromVersion: number;
+  readonly toVersion: number;
+
+  constructor(fromVersion: number, toVersion: number) {
+    super(
+      `[react-foam] No migration path from version ${fromVersion} to version ${toVersion}.`
+    );
+    this.name = "MigrationError";
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+  }
+}
+
+/**
+ * Creates an empty migration registry for state of type `T`. Chain `add`
+ * calls to register one migration per schema version.
+ *
+ * @param baseVersion The schema version of state of type `T`.
+ * @returns A registry at `baseVersion` with no migrations.
+ * @example
+ * const migrations = createMigrations<StateV0>()
+ *   .add(1, (state): StateV1 => ({ ...state, tags: [] }))
+ *   .add(2, (state): StateV2 => ({ ...state, title: state.name }));
+ */
+export function createMigrations<T>(baseVersion = 0): MigrationRegistry<T> {
+  return buildMigrationRegistry<T>(baseVersion, []);
+}
+
+function buildMigrationRegistry<T>(
+  baseVersion: number,
+  steps: ((state: any) => unknown)[]
+): MigrationRegistry<T> {
+  const latestVersion = baseVersion + steps.length;
+
+  return {
+    version: latestVersion,
+    add: (version, migration) => {
+      if (version !== latestVersion + 1) {
+        throw new Error(
+          `[react-foam] Expected a migration to version ${latestVersion + 1}, got version ${version}.`
+        );
+      }
+      return buildMigrationRegistry(baseVersion, [...steps, migration]);
+    },
+    migrate: (state, fromVersion) => {
+      if (
+        !Number.isInteger(fromVersion) ||
+        fromVersion < baseVersion ||
+        fromVersion > latestVersion
+      ) {
+        throw new MigrationError(fromVersion, latestVersion);
+      }
+      return steps
+        .slice(fromVersion - baseVersion)
+        .reduce((migrated, step) => step(migrated), state) as T;
+    },
+  };
+}
+
+// --- PERSISTENCE ---
+
+const isPromiseLike = <V>(value: V | Promise<V>): value is Promise<V> =>
+  typeof (value as Promise<V>)?.then === "function";
+
+const createWebStorageAdapter = (
+  getStorage: () => Storage
+): StorageAdapter => ({
+  getItem: (key) => getStorage().getItem(key),
+  setItem: (key, value) => getStorage().setItem(key, value),
+  removeItem: (key) => getStorage().removeItem(key),
+});
+
+/** Saves state to `window.localStorage`. */
+export const localStorageAdapter: StorageAdapter = createWebStorageAdapter(
+  () => window.localStorage
+);
+
+/** Saves state to `window.sessionStorage`. */
+export const sessionStorageAdapter: StorageAdapter = createWebStorageAdapter(
+  () => window.sessionStorage
+);
+
+/**
+ * Creates an async storage adapter backed by an IndexedDB object store.
+ * The database is opened lazily on first use.
+ *
+ * @param dbName The database name.
+ * @param storeName The object store the values are kept in.
+ */
+export function createIndexedDBAdapter(
+  dbName = "react-foam",
+  storeName = "state"
+): StorageAdapter {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  const run = <R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ) =>
+    openDatabase().then(
+      (db) =>
+        new Promise<R>((resolve, reject) => {
+          const store = db.transaction(storeName, mode).objectStore(storeName);
+          const request = operation(store);
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        })
+    );
+
+  return {
+    getItem: (key) =>
+      run("readonly", (store) => store.get(key)).then(
+        (value) => (value as string | undefined) ?? null
+      ),
+    setItem: (key, value) =>
+      run("readwrite", (store) => store.put(value, key)).then(() => undefined),
+    removeItem: (key) =>
+      run("readwrite", (store) => store.delete(key)).then(() => undefined),
+  };
+}
+
+/**
+ * Saves a store's state on every change and loads it back at startup.
+ * Saved state is shallowly merged over the store's current state, so keys
+ * added to the initial state since it was saved keep their defaults.
+ *
+ * @param store The store to persist.
+ * @param options Where and how to save the state.
+ * @returns An object to check hydration status and control persistence.
+ * @example const cartPersistence = persist(useCartStore, { key: "cart" });
+ */
+export function persist<T extends object, P = T>(
+  store: StoreHook<T>,
+  options: PersistOptions<T, P>
+): PersistApi {
+  const {
+    key,
+    storage = localStorageAdapter,
+    partialize = (state: T) => state as unknown as P,
+    version = store.toSnapshot().version,
+    migrate,
+  } = options;
+  // Only usable when saving the whole state, which the registry migrates,
+  // under the version it migrates to.
+  const registry = options.partialize ? undefined : storeMigrations.get(store);
+  const migrations = registry?.version === version ? registry : undefined;
+
+  let hydrated = false;
+  const hydrationListeners = new Set<() => void>();
+
+  const save = (state: T) => {
+    const persisted: Snapshot<P> = { state: partialize(state), version };
+    const result = storage.setItem(key, JSON.stringify(persisted));
+    if (isPromiseLike(result)) {
+      result.catch((error) =>
+        console.error(`[react-foam] Failed to persist "${key}":`, error)
+      );
+    }
+  };
+
+  const applyPersisted = (raw: string | null) => {
+    if (raw === null) return;
+
+    const persisted = JSON.parse(raw) as Snapshot<unknown>;
+    let persistedState: unknown;
+    if (persisted.version === version) {
+      persistedState = persisted.state;
+    } else if (migrate) {
+      persistedState = migrate(persisted.state, persisted.version);
+    } else if (migrations) {
+      persistedState = migrations.migrate(persisted.state, persisted.version);
+    } else {
+      return;
+    }
+
+    store.setState((state) => ({ ...state, ...(persistedState as object) }), {
+      action: "persist/rehydrate",
+    });
+  };
+
+  const finishHydration = () => {
+    if (hydrated) return;
+    hydrated = true;
+    hydrationListeners.forEach((listener) => listener());
+  };
+
+  // Synchronous storage hydrates before `rehydrate` returns, so components
+  // rendered right after `persist` never see the initial state.
+  const rehydrate = (): Promise<void> => {
+    hydrated = false;
+    const hydrate = (raw: string | null) => {
+      try {
+        applyPersisted(raw);
+      } finally {
+        finishHydration();
+      }
+    };
+
+    try {
+      const stored = storage.getItem(key);
+      if (isPromiseLike(stored)) {
+        return stored.then(hydrate, (error) => {
+          finishHydration();
+          throw error;
+        });
+      }
+      hydrate(stored);
+      return Promise.resolve();
+    } catch (error) {
+      finishHydration();
+      return Promise.reject(error);
+    }
+  };
+
+  const unsubscribe = store.subscribe((state) => {
+    if (hydrated) save(state);
+  });
+
+  rehydrate().catch((error) =>
+    console.error(`[react-foam] Failed to rehydrate "${key}":`, error)
+  );
+
+  const removeDestroyCallback = store.onDestroy(() => destroy());
+  const destroy = () => {
+    unsubscribe();
+    removeDestroyCallback();
+  };
+
+  return {
+    hasHydrated: () => hydrated,
+    onHydrated: (listener) => {
+      hydrationListeners.add(listener);
+      return () => hydrationListeners.delete(listener);
+    },
+    rehydrate,
+    clearStorage: () => Promise.resolve().then(() => storage.removeItem(key)),
+    destroy,
+  };
+}
+
+// --- HISTORY ---
+
+/**
+ * Records a store's past and future states so updates can be undone and
+ * redone. Every update is one undo step unless grouped with `groupBy` or
+ * `beginGroup`/`endGroup`.
+ *
+ * @param store The store to record.
+ * @param options How many steps to keep and which updates to record.
+ * @returns Undo/redo controls and a `useHistory` hook.
+ * @example const editorHistory = withHistory(useEditorStore, { limit: 50 });
+ */
+export function withHistory<T extends object>(
+  store: StoreHook<T>,
+  options: HistoryOptions<T> = {}
+): History {
+  const { limit = 100, groupBy, filter } = options;
+
+  let past: T[] = [];
+  let future: T[] = [];
+  let groupDepth = 0;
+  let groupRecorded = false;
+  let lastGroupKey: unknown;
+
+  // Undo and redo are applied with these metadata objects, so the listener
+  // below can tell them apart from regular updates.
+  const undoMeta: UpdateMeta = { action: "undo" };
+  const redoMeta: UpdateMeta = { action: "redo" };
+
+  const statusListeners = new Set<() => void>();
+  let status: HistoryStatus = {
+    canUndo: false,
+    canRedo: false,
+    pastCount: 0,
+    futureCount: 0,
+  };
+
+  const emitChange = () => {
+    status = {
+      canUndo: past.length > 0,
+      canRedo: future.length > 0,
+      pastCount: past.length,
+      futureCount: future.length,
+    };
+    statusListeners.forEach((listener) => listener());
+  };
+
+  const subscribeStatus = (listener: () => void) => {
+    statusListeners.add(listener);
+    return () => statusListeners.delete(listener);
+  };
+
+  const record = (prevState: T, groupKey: unknown) => {
+    past.push(prevState);
+    if (past.length > limit) past.shift();
+    future = [];
+    lastGroupKey = groupKey;
+    emitChange();
+  };
+
+  const unsubscribe = store.onChange((state, prevState, meta) => {
+    if (meta === undoMeta || meta === redoMeta) return;
+    if (filter && !filter(meta, state, prevState)) return;
+
+    if (groupDepth > 0) {
+      if (!groupRecorded) record(prevState, undefined);
+      groupRecorded = true;
+      return;
+    }
+
+    const groupKey = groupBy?.(meta, state, prevState);
+    if (groupKey !== undefined && groupKey === lastGroupKey) {
+      // Part of the current step; drop any redo steps it invalidated.
+      if (future.length > 0) {
+        future = [];
+        emitChange();
+      }
+      return;
+    }
+    record(prevState, groupKey);
+  });
+
+  const removeDestroyCallback = store.onDestroy(() => destroy());
+  const destroy = () => {
+    unsubscribe();
+    removeDestroyCallback();
+  };
+
+  const travel = (from: T[], to: T[], meta: UpdateMeta) => {
+    const target = from.pop();
+    if (target === undefined) return;
+    to.push(store.getState());
+    lastGroupKey = undefined;
+    store.setState(target, meta);
+    emitChange();
+  };
+
+  return {
+    undo: () => travel(past, future, undoMeta),
+    redo: () => travel(future, past, redoMeta),
+    get canUndo() {
+      return past.length > 0;
+    },
+    get canRedo() {
+      return future.length > 0;
+    },
+    clear: () => {
+      past = [];
+      future = [];
+      lastGroupKey = undefined;
+      emitChange();
+    },
+    beginGroup: () => {
+      if (groupDepth === 0) groupRecorded = false;
+      groupDepth++;
+    },
+    endGroup: () => {
+      groupDepth = Math.max(0, groupDepth - 1);
+      lastGroupKey = undefined;
+    },
+    useHistory: () => useSyncExternalStore(subscribeStatus, () => status),
+    destroy,
+  };
+}
+
+// --- DEVTOOLS ---
+
+/**
+ * Connects a store to the Redux DevTools browser extension. Every update is
+ * sent labelled with its `meta.action`, and the extension can jump between
+ * states, import and export them, and pause recording. Does nothing if the
+ * extension isn't installed.
+ *
+ * @param store The store to inspect.
+ * @param options The instance name shown in the extension.
+ * @returns An object to check the connection and disconnect.
+ * @example devtools(useCartStore, { name: "cart" });
+ */
+export function devtools<T extends object>(
+  store: StoreHook<T>,
+  options: DevtoolsOptions = {}
+): DevtoolsApi {
+  const extension =
+    typeof window !== "undefined"
+      ? (window as Window & { __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension })
+          .__REDUX_DEVTOOLS_EXTENSION__
+      : undefined;
+
+  if (!extension) {
+    return { connected: false, destroy: () => {} };
+  }
+
+  const name = options.name ?? storeNames.get(store);
+  const connection = extension.connect(name === undefined ? {} : { name });
+  const initialState = store.getState();
+  let paused = false;
+
+  // Updates made on behalf of the extension are applied with this metadata,
+  // so they aren't sent back to it.
+  const devtoolsMeta: UpdateMeta = { action: "devtools" };
+
+  const applyState = (state: T) => store.setState(state, devtoolsMeta);
+
+  connection.init(initialState);
+
+  const unsubscribeStore = store.onChange((state, _prevState, meta) => {
+    if (paused || meta === devtoolsMeta) return;
+    connection.send({ ...meta, type: meta.action ?? "setState" }, state);
+  });
+
+  const handleDispatch = (message: DevtoolsMessage) => {
+    switch (message.payload?.type) {
+      case "JUMP_TO_STATE":
+      case "JUMP_TO_ACTION":
+        if (message.state !== undefined) applyState(JSON.parse(message.state));
+        break;
+      case "RESET":
+        applyState(initialState);
+        connection.init(initialState);
+        break;
+      case "COMMIT":
+        connection.init(store.getState());
+        break;
+      case "ROLLBACK":
+        if (message.state !== undefined) {
+          const state = JSON.parse(message.state) as T;
+          applyState(state);
+          connection.init(state);
+        }
+        break;
+      case "IMPORT_STATE": {
+        const liftedState = message.payload.nextLiftedState;
+        const computedStates: { state: T }[] = liftedState?.computedStates ?? [];
+        const lastState = computedStates[computedStates.length - 1];
+        if (lastState) applyState(lastState.state);
+        connection.send(null, liftedState);
+        break;
+      }
+      case "PAUSE_RECORDING":
+        paused = message.payload.status ?? !paused;
+        break;
+    }
+  };
+
+  const unsubscribeExtension = connection.subscribe((message) => {
+    if (message.type === "DISPATCH") handleDispatch(message);
+  });
+
+  const removeDestroyCallback = store.onDestroy(() => destroy());
+  const destroy = () => {
+    unsubscribeStore();
+    removeDestroyCallback();
+    if (typeof unsubscribeExtension === "function") {
+      unsubscribeExtension();
+    } else {
+      connection.unsubscribe?.();
+    }
+  };
+
+  return { connected: true, destroy };
+}
+
+// --- TAB SYNC ---
+
+/**
+ * Keeps a store in sync across browser tabs. Every local update is
+ * broadcast to the other tabs syncing on the same channel, and updates
+ * from them are applied locally without being sent back. Uses a
+ * `BroadcastChannel` where available and falls back to `storage` events.
+ *
+ * @param store The store to sync.
+ * @param options The channel name and how to share and combine state.
+ * @returns An object to check the transport and stop syncing.
+ * @example syncTabs(useCartStore, { channel: "cart" });
+ */
+export function syncTabs<T extends object, P = T>(
+  store: StoreHook<T>,
+  options: SyncTabsOptions<T, P>
+): SyncTabsApi {
+  const {
+    channel,
+    partialize = (state: T) => state as unknown as P,
+    conflict = (localState: T, remoteState: P) => ({
+      ...localState,
+      ...remoteState,
+    }),
+  } = options;
+
+  // Updates received from other tabs are applied with this metadata, so
+  // they aren't broadcast back.
+  const syncMeta: UpdateMeta = { action: "syncTabs" };
+
+  const receive = (remoteState: P) => {
+    store.setState((state) => conflict(state, remoteState), syncMeta);
+  };
+
+  let post: (state: P) => void;
+  let close: () => void;
+  let transport: SyncTabsApi["transport"];
+
+  if (typeof BroadcastChannel !== "undefined") {
+    const broadcastChannel = new BroadcastChannel(`react-foam:${channel}`);
+    broadcastChannel.onmessage = (event: MessageEvent<{ state: P }>) =>
+      receive(event.data.state);
+    post = (state) => broadcastChannel.postMessage({ state });
+    close = () => broadcastChannel.close();
+    transport = "broadcast-channel";
+  } else if (typeof window !== "undefined" && window.localStorage) {
+    // Other tabs get a `storage` event for every write to this key. The
+    // counter makes each write unique, so repeated states still arrive.
+    const storageKey = `react-foam:${channel}`;
+    let sent = 0;
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== storageKey || event.newValue === null) return;
+      receive((JSON.parse(event.newValue) as { state: P }).state);
+    };
+    window.addEventListener("storage", onStorage);
+    post = (state) =>
+      window.localStorage.setItem(
+        storageKey,
+        JSON.stringify({ state, sent: ++sent })
+      );
+    close = () => window.removeEventListener("storage", onStorage);
+    transport = "storage";
+  } else {
+    return { transport: "none", destroy: () => {} };
+  }
+
+  const unsubscribe = store.onChange((state, prevState, meta) => {
+    if (meta === syncMeta) return;
+    const shared = partialize(state);
+    if (shallow(shared, partialize(prevState))) return;
+    try {
+      post(shared);
+    } catch (error) {
+      console.error(`[react-foam] Failed to sync "${channel}":`, error);
+    }
+  });
+
+  const removeDestroyCallback = store.onDestroy(() => destroy());
+  const destroy = () => {
+    unsubscribe();
+    removeDestroyCallback();
+    close();
+  };
+
+  return { transport, destroy };
+}
+
+// --- ASYNC ACTIONS ---
+
+const idleStatus: AsyncActionStatus<never> = {
+  status: "idle",
+  data: undefined,
+  error: undefined,
+};
+
+const abortReason = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException("The operation was aborted.", "AbortError");
+
+/**
+ * Wraps an async function that updates a store, tracking the status of its
+ * latest call as `idle`, `pending`, `success` or `error`. Each call gets an
+ * `AbortSignal`; an aborted call rejects right away, and its result is
+ * ignored even if the function doesn't check the signal. Pending calls are
+ * aborted when the store is destroyed.
+ *
+ * @param store The store the action updates.
+ * @param run The async function, called with an `AbortSignal` and the
+ * action's arguments.
+ * @param options Set `latestOnly` to abort pending calls on each new call.
+ * @returns The action, which returns `run`'s promise.
+ * @example
+ * const loadTodos = asyncAction(useTodoStore, async (signal) => {
+ *   const todos = await fetchTodos({ signal });
+ *   useTodoStore.patch({ todos });
+ * });
+ */
+export function asyncAction<T extends object, Args extends unknown[], R>(
+  store: StoreHook<T, any>,
+  run: (signal: AbortSignal, ...args: Args) => Promise<R>,
+  options: AsyncActionOptions = {}
+): AsyncAction<Args, R> {
+  const { latestOnly = false } = options;
+  let status: AsyncActionStatus<R> = idleStatus;
+  let latestCall = 0;
+  const pending = new Set<AbortController>();
+  const listeners = new Set<() => void>();
+
+  const setStatus = (nextStatus: AsyncActionStatus<R>) => {
+    status = nextStatus;
+    listeners.forEach((listener) => listener());
+  };
+
+  const abort = () => {
+    const controllers = Array.from(pending);
+    pending.clear();
+    controllers.forEach((controller) => controller.abort());
+  };
+
+  const action = (...args: Args): Promise<R> => {
+    if (latestOnly) abort();
+    const controller = new AbortController();
+    const { signal } = controller;
+    pending.add(controller);
+    const call = ++latestCall;
+    setStatus({ status: "pending", data: status.data, error: undefined });
+
+    const aborted = new Promise<never>((_, reject) => {
+      signal.addEventListener("abort", () => reject(abortReason(signal)), {
+        once: true,
+      });
+    });
+    const result = new Promise<R>((resolve) => resolve(run(signal, ...args)));
+
+    // Only the latest call updates the status, so a slow earlier call can't
+    // overwrite a newer one's result.
+    return Promise.race([result, aborted]).then(
+      (data) => {
+        pending.delete(controller);
+        if (call === latestCall) {
+          setStatus({ status: "success", data, error: undefined });
+        }
+        return data;
+      },
+      (error: unknown) => {
+        pending.delete(controller);
+        if (call === latestCall) {
+          setStatus(
+            signal.aborted
+              ? { status: "idle", data: status.data, error: undefined }
+              : { status: "error", data: status.data, error }
+          );
+        }
+        throw error;
+      }
+    );
+  };
+
+  store.onDestroy(abort);
+
+  return Object.assign(action, {
+    getStatus: () => status,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    abort,
+  });
+}
+
+/**
+ * Returns the status of an async action's latest call and re-renders when
+ * it changes.
+ * @param action An action created with `asyncAction`.
+ * @returns The action's `status`, last `data` and `error`.
+ * @example const { status, error } = useActionStatus(loadTodos);
+ */
+export function useActionStatus<R>(
+  action: AsyncAction<any[], R>
+): AsyncActionStatus<R> {
+  return useSyncExternalStore(
+    action.subscribe,
+    action.getStatus,
+    action.getStatus
+  );
+}
+
+// --- RESOURCES ---
+
+// What `useResource` needs beyond the public resource API: where to read
+// the value from, how to start fetching without notifying, and whether a
+// value has been loaded to show while refetching.
+interface ResourceInternals {
+  source: StoreSource<unknown>;
+  load: () => Promise<unknown>;
+  hasValue: () => boolean;
+}
+
+const resourceInternals = new WeakMap<object, ResourceInternals>();
+
+/**
+ * Creates a resource that fetches a value into `store` under `key`, for
+ * components to read with `useResource` under React Suspense. Fetches are
+ * deduplicated, and starting a new one aborts the previous one.
+ *
+ * @param store The store to load the value into.
+ * @param key The state key the value is stored under.
+ * @param fetcher Fetches the value, given an `AbortSignal`.
+ * @returns The resource, to pass to `useResource`.
+ * @example
+ * const todosResource = createResource(useTodoStore, "todos", (signal) =>
+ *   fetch("/api/todos", { signal }).then((response) => response.json())
+ * );
+ */
+export function createResource<T extends object, K extends keyof T>(
+  store: StoreHook<T, any>,
+  key: K,
+  fetcher: (signal: AbortSignal) => Promise<T[K]>
+): Resource<T[K]> {
+  let status: ResourceStatus = { status: "idle", error: undefined };
+  let loaded = false;
+  let current: { controller: AbortController; promise: Promise<T[K]> } | null =
+    null;
+  const listeners = new Set<() => void>();
+  const meta: UpdateMeta = { action: `resource/${String(key)}` };
+
+  const setStatus = (nextStatus: ResourceStatus, emit = true) => {
+    status = nextStatus;
+    if (emit) listeners.forEach((listener) => listener());
+  };
+
+  // `emit` is false when fetching from `useResource`, which may run during
+  // render, where notifying other components isn't allowed.
+  const fetchValue = (emit: boolean): Promise<T[K]> => {
+    current?.controller.abort();
+    const controller = new AbortController();
+    const isCurrent = () => current?.controller === controller;
+
+    const promise = new Promise<T[K]>((resolve) =>
+      resolve(fetcher(controller.signal))
+    ).then(
+      (value) => {
+        if (isCurrent()) {
+          current = null;
+          loaded = true;
+          store.patch({ [key]: value } as unknown as Partial<T>, meta);
+          setStatus({ status: "success", error: undefined });
+        }
+        return value;
+      },
+      (error: unknown) => {
+        if (isCurrent()) {
+          current = null;
+          setStatus({ status: "error", error });
+        }
+        throw error;
+      }
+    );
+    // Rejections are reported through the status; callers awaiting the
+    // promise still see them.
+    promise.catch(() => {});
+
+    current = { controller, promise };
+    setStatus({ status: "pending", error: undefined }, emit);
+    return promise;
+  };
+
+  const load = (emit = true): Promise<T[K]> => {
+    if (current) return current.promise;
+    if (status.status === "success") {
+      return Promise.resolve(store.getState()[key]);
+    }
+    return fetchValue(emit);
+  };
+
+  const abort = () => {
+    current?.controller.abort();
+    current = null;
+  };
+
+  store.onDestroy(abort);
+
+  const resource: Resource<T[K]> = {
+    load: () => load(),
+    refetch: () => fetchValue(true),
+    invalidate: () => {
+      abort();
+      loaded = false;
+      setStatus({ status: "idle", error: undefined });
+    },
+    getStatus: () => status,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+
+  const storeSource = getStoreSource(store);
+  resourceInternals.set(resource, {
+    source: {
+      getState: () => storeSource.getState()[key],
+      getServerState: () => storeSource.getServerState()[key],
+      subscribe: storeSource.subscribe,
+    },
+    load: () => load(false),
+    hasValue: () => loaded,
+  });
+
+  return resource;
+}
+
+/**
+ * Reads a resource's value, suspending while it loads for the first time
+ * and throwing its error to the nearest error boundary if it fails. The
+ * value is read from the resource's store, so later updates to it re-render
+ * the component like `useStore`.
+ *
+ * @param resource A resource created with `createResource`.
+ * @returns The loaded value.
+ * @example const todos = useResource(todosResource);
+ */
+export function useResource<V>(resource: Resource<V>): V {
+  const { status, error } = useSyncExternalStore(
+    resource.subscribe,
+    resource.getStatus,
+    resource.getStatus
+  );
+  const internals = resourceInternals.get(resource)!;
+  const value = useStoreSelection(internals.source as StoreSource<V>) as V;
+
+  if (status === "error") throw error;
+  if (status === "idle" || (status === "pending" && !internals.hasValue())) {
+    // Suspense retries rendering once the promise settles, either way.
+    throw internals.load().then(
+      () => undefined,
+      () => undefined
+    );
+  }
+  return value;
+}
+
+// --- QUERIES ---
+
+// Sorts object keys so `{ a, b }` and `{ b, a }` hash the same.
+const hashQueryKey = (queryKey: QueryKey): string =>
+  JSON.stringify(queryKey, (_, value: unknown) =>
+    isPlainObject(value)
+      ? Object.keys(value)
+          .sort()
+          .reduce<Record<string, unknown>>((sorted, key) => {
+            sorted[key] = value[key];
+            return sorted;
+          }, {})
+      : value
+  );
+
+const matchesQueryKey = (queryKey: QueryKey, prefix: QueryKey): boolean =>
+  prefix.length <= queryKey.length &&
+  prefix.every(
+    (part, index) => hashQueryKey([part]) === hashQueryKey([queryKey[index]])
+  );
+
+// A cached query. Each one is a store, so `useQuery` subscribes to it like
+// any other store and its lifecycle callbacks drive garbage collection.
+interface QueryEntry {
+  queryKey: QueryKey;
+  store: StoreHook<QueryState<any>>;
+  queryFn: QueryOptions<any>["queryFn"] | undefined;
+  fetching: { controller: AbortController; promise: Promise<any> } | null;
+  invalidated: boolean;
+  active: boolean;
+  cacheTime: number;
+  gcTimer: ReturnType<typeof setTimeout> | undefined;
+}
+
+// What `useQuery` needs beyond the public client API.
+interface QueryClientInternals {
+  getEntry: (queryKey: QueryKey, hash?: string) => QueryEntry;
+  findEntry: (queryKey: QueryKey) => QueryEntry | undefined;
+  runQuery: <D>(options: QueryOptions<D>, force?: boolean) => Promise<D>;
+}
+
+const queryClientInternals = new WeakMap<QueryClient, QueryClientInternals>();
+
+// The state of a query that hasn't been fetched. Shared, so `useQuery`
+// reads the same snapshot before and after its entry is created.
+const initialQueryState: QueryState<any> = {
+  status: "pending",
+  data: undefined,
+  error: undefined,
+  isFetching: false,
+  updatedAt: 0,
+};
+
+/**
+ * Creates a cache for server state. Queries are cached by key, concurrent
+ * fetches of the same key are deduplicated, and stale data is shown while
+ * it is refetched in the background. Queries nobody uses are removed after
+ * `cacheTime`.
+ *
+ * @param defaults The default `staleTime` and `cacheTime` of queries.
+ * @returns The client, to pass to `useQuery` and `useMutation`.
+ * @example const queryClient = createQueryClient({ staleTime: 30_000 });
+ */
+export function createQueryClient(
+  defaults: QueryClientOptions = {}
+): QueryClient {
+  const defaultStaleTime = defaults.staleTime ?? 0;
+  const defaultCacheTime = defaults.cacheTime ?? 5 * 60 * 1000;
+  const entries = new Map<string, QueryEntry>();
+
+  const removeEntry = (hash: string, entry: QueryEntry) => {
+    clearTimeout(entry.gcTimer);
+    entry.fetching?.controller.abort();
+    entry.fetching = null;
+    if (entries.get(hash) === entry) entries.delete(hash);
+    entry.store.destroy();
+  };
+
+  const scheduleGc = (hash: string, entry: QueryEntry) => {
+    clearTimeout(entry.gcTimer);
+    const timer = setTimeout(() => removeEntry(hash, entry), entry.cacheTime);
+    // Don't keep a server process alive just to collect its cache.
+    (timer as { unref?: () => void }).unref?.();
+    entry.gcTimer = timer;
+  };
+
+  const findEntry = (queryKey: QueryKey) => entries.get(hashQueryKey(queryKey));
+
+  const getEntry = (
+    queryKey: QueryKey,
+    hash = hashQueryKey(queryKey)
+  ): QueryEntry => {
+    let entry = entries.get(hash);
+    if (!entry) {
+      const created: QueryEntry = {
+        queryKey,
+        store: buildStore<QueryState<any>, Record<never, never>>(
+          initialQueryState,
+          {
+            onActivate: () => {
+              created.active = true;
+              clearTimeout(created.gcTimer);
+            },
+            onDeactivate: () => {
+              created.active = false;
+              scheduleGc(hash, created);
+            },
+          }
+        ),
+        queryFn: undefined,
+        fetching: null,
+        invalidated: false,
+        active: false,
+        cacheTime: defaultCacheTime,
+        gcTimer: undefined,
+      };
+      entry = created;
+      entries.set(hash, entry);
+      // Collect the entry even if nothing ever subscribes to it.
+      scheduleGc(hash, entry);
+    }
+    return entry;
+  };
+
+  const fetchEntry = (entry: QueryEntry): Promise<any> => {
+    if (entry.fetching) return entry.fetching.promise;
+    const { queryFn, queryKey, store } = entry;
+    if (!queryFn) {
+      return Promise.reject(
+        new Error("[react-foam] The query has no queryFn to fetch it with.")
+      );
+    }
+
+    const controller = new AbortController();
+    const meta: UpdateMeta = { action: "query/fetch", queryKey };
+    store.patch({ isFetching: true }, meta);
+
+    const promise = new Promise((resolve) =>
+      resolve(queryFn({ queryKey, signal: controller.signal }))
+    ).then(
+      (data) => {
+        if (entry.fetching?.controller === controller) {
+          entry.fetching = null;
+          entry.invalidated = false;
+          store.patch(
+            {
+              status: "success",
+              data,
+              error: undefined,
+              isFetching: false,
+              updatedAt: Date.now(),
+            },
+            { action: "query/success", queryKey }
+          );
+        }
+        return data;
+      },
+      (error: unknown) => {
+        if (entry.fetching?.controller === controller) {
+          entry.fetching = null;
+          store.patch(
+            { status: "error", error, isFetching: false },
+            { action: "query/error", queryKey }
+          );
+        }
+        throw error;
+      }
+    );
+    // Failures are reported through the query's state; callers awaiting
+    // the promise still see them.
+    promise.catch(() => {});
+
+    entry.fetching = { controller, promise };
+    return promise;
+  };
+
+  const isStale = (entry: QueryEntry, staleTime: number) => {
+    const { status, updatedAt } = entry.store.getState();
+    return (
+      entry.invalidated ||
+      status !== "success" ||
+      Date.now() - updatedAt >= staleTime
+    );
+  };
+
+  // Applies a query's options to its entry, and fetches it if it's stale.
+  const runQuery = <D>(options: QueryOptions<D>, force = false) => {
+    const entry = getEntry(options.queryKey);
+    entry.queryFn = options.queryFn;
+    entry.cacheTime = options.cacheTime ?? defaultCacheTime;
+    // Collect unused entries after the query's own `cacheTime`.
+    if (!entry.active) scheduleGc(hashQueryKey(options.queryKey), entry);
+    const staleTime = options.staleTime ?? defaultStaleTime;
+    if (force || isStale(entry, staleTime)) {
+      return fetchEntry(entry) as Promise<D>;
+    }
+    return Promise.resolve(entry.store.getState().data as D);
+  };
+
+  const client: QueryClient = {
+    fetchQuery: (options) => runQuery(options),
+    getQueryData: (queryKey) => findEntry(queryKey)?.store.getState().data,
+    setQueryData: <D>(
+      queryKey: QueryKey,
+      updater: D | ((data: D | undefined) => D)
+    ) => {
+      const entry = getEntry(queryKey);
+      const { data } = entry.store.getState();
+      entry.invalidated = false;
+      entry.store.patch(
+        {
+          status: "success",
+          data:
+            typeof updater === "function"
+              ? (updater as (data: D | undefined) => D)(data)
+              : updater,
+          error: undefined,
+          updatedAt: Date.now(),
+        },
+        { action: "query/setData", queryKey }
+      );
+    },
+    invalidateQueries: (queryKey = []) => {
+      const refetches: Promise<unknown>[] = [];
+      entries.forEach((entry) => {
+        if (!matchesQueryKey(entry.queryKey, queryKey)) return;
+        entry.invalidated = true;
+        if (entry.active && entry.queryFn) {
+          entry.fetching?.controller.abort();
+          entry.fetching = null;
+          refetches.push(fetchEntry(entry).catch(() => {}));
+        }
+      });
+      return Promise.all(refetches).then(() => undefined);
+    },
+    clear: () => {
+      entries.forEach((entry, hash) => {
+        if (!entry.active) {
+          removeEntry(hash, entry);
+          return;
+        }
+        // Components stay subscribed to entries in use, so those are reset
+        // rather than destroyed.
+        entry.fetching?.controller.abort();
+        entry.fetching = null;
+        entry.invalidated = false;
+        entry.store.setState(initialQueryState, {
+          action: "query/clear",
+          queryKey: entry.queryKey,
+        });
+        if (entry.queryFn) fetchEntry(entry).catch(() => {});
+      });
+    },
+  };
+
+  queryClientInternals.set(client, { getEntry, findEntry, runQuery });
+  return client;
+}
+
+/**
+ * Reads a query from a query client, fetching it when it has no data or
+ * its data is stale. Stale data is returned while it is refetched in the
+ * background, and components using the same key share a single fetch.
+ *
+ * @param client The query client to read from.
+ * @param options The query's key, fetch function and cache times.
+ * @returns The query's state and a `refetch` function.
+ * @example
+ * const { status, data } = useQuery(queryClient, {
+ *   queryKey: ["todos", filter],
+ *   queryFn: ({ signal }) => fetchTodos(filter, { signal }),
+ * });
+ */
+export function useQuery<D>(
+  client: QueryClient,
+  options: QueryOptions<D>
+): QueryResult<D> {
+  const { getEntry, findEntry, runQuery } = queryClientInternals.get(client)!;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const hash = hashQueryKey(options.queryKey);
+  const enabled = options.enabled ?? true;
+
+  // Rendering only reads the cache: the entry is created when the
+  // component subscribes, so discarded renders and the server leave
+  // nothing behind.
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      getEntry(optionsRef.current.queryKey, hash).store.subscribe(listener),
+    [getEntry, hash]
+  );
+  const getSnapshot = () =>
+    (findEntry(options.queryKey)?.store.getState() ??
+      initialQueryState) as QueryState<D>;
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  useEffect(() => {
+    if (enabled) runQuery(optionsRef.current).catch(() => {});
+  }, [runQuery, hash, enabled]);
+
+  const refetch = useCallback(
+    () => runQuery(optionsRef.current, true),
+    [runQuery]
+  );
+
+  return { ...state, refetch };
+}
+
+/**
+ * Runs mutations, such as `POST` requests, and tracks the status of the
+ * latest one. Invalidates the given queries when a mutation succeeds, so
+ * the data they show is refetched.
+ *
+ * @param client The query client whose queries the mutation affects.
+ * @param options The mutation function and what to do after it.
+ * @returns The latest mutation's status and functions to run a mutation.
+ * @example
+ * const addTodo = useMutation(queryClient, {
+ *   mutationFn: (text: string) => postTodo(text),
+ *   invalidates: [["todos"]],
+ * });
+ */
+export function useMutation<V, D>(
+  client: QueryClient,
+  options: MutationOptions<V, D>
+): MutationResult<V, D> {
+  const [state, setState] = useState<AsyncActionStatus<D>>(idleStatus);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const latestCall = useRef(0);
+
+  const mutateAsync = useCallback(
+    (variables: V): Promise<D> => {
+      const call = ++latestCall.current;
+      const { mutationFn, onSuccess, onError, invalidates = [] } =
+        optionsRef.current;
+      // Only the latest mutation updates the status.
+      const update = (nextState: AsyncActionStatus<D>) => {
+        if (call === latestCall.current) setState(nextState);
+      };
+      update({ status: "pending", data: undefined, error: undefined });
+
+      return new Promise<D>((resolve) => resolve(mutationFn(variables))).then(
+        (data) => {
+          update({ status: "success", data, error: undefined });
+          onSuccess?.(data, variables);
+          invalidates.forEach((queryKey) => {
+            void client.invalidateQueries(queryKey);
+          });
+          return data;
+        },
+        (error: unknown) => {
+          update({ status: "error", data: undefined, error });
+          onError?.(error, variables);
+          throw error;
+        }
+      );
+    },
+    [client]
+  );
+
+  const mutate = useCallback(
+    (variables: V) => {
+      mutateAsync(variables).catch(() => {});
+    },
+    [mutateAsync]
+  );
+
+  const reset = useCallback(() => {
+    latestCall.current++;
+    setState(idleStatus);
+  }, []);
+
+  return { ...state, mutate, mutateAsync, reset };
+}
+
+// --- OPTIMISTIC UPDATES ---
+
+// A store's pending optimistic updates. `confirmed` is the state without
+// them; the visible state is `confirmed` with every layer applied in order.
+interface OptimisticLayers<T> {
+  confirmed: T;
+  layers: StateUpdater<T>[];
+  unsubscribe: () => void;
+}
+
+const optimisticLayers = new WeakMap<object, OptimisticLayers<any>>();
+
+const applyLayers = <T>({ confirmed, layers }: OptimisticLayers<T>): T =>
+  layers.reduce((state, layer) => layer(state), confirmed);
+
+const optimisticMeta: UpdateMeta = { action: "optimistic" };
+const rebaseMeta: UpdateMeta = { action: "optimistic/rebase" };
+const rollbackMeta: UpdateMeta = { action: "optimistic/rollback" };
+
+// Merges a whole-state update into the confirmed state. Subtrees the
+// pending layers didn't change take the update's value, and subtrees the
+// update didn't change keep the confirmed value. Plain objects both changed
+// are merged key by key, except keys only the layers added; anything else
+// both changed, such as an array, takes the update's value.
+const mergeUpdate = (
+  confirmed: unknown,
+  prev: unknown,
+  next: unknown
+): unknown => {
+  if (Object.is(prev, next)) return confirmed;
+  if (Object.is(confirmed, prev)) return next;
+  if (
+    !isPlainObject(confirmed) ||
+    !isPlainObject(prev) ||
+    !isPlainObject(next)
+  ) {
+    return next;
+  }
+
+  let result = confirmed;
+  const write = () => {
+    if (result === confirmed) result = { ...confirmed };
+    return result;
+  };
+  Object.keys(prev).forEach((key) => {
+    if (!(key in next) && key in confirmed) delete write()[key];
+  });
+  Object.keys(next).forEach((key) => {
+    if (!(key in prev)) {
+      write()[key] = next[key];
+    } else if (key in confirmed) {
+      const merged = mergeUpdate(confirmed[key], prev[key], next[key]);
+      if (!Object.is(merged, confirmed[key])) write()[key] = merged;
+    }
+  });
+  return result;
+};
+
+/**
+ * Applies an update right away, before the change it anticipates is
+ * confirmed, e.g. by a server. The update is kept as a pending layer on top
+ * of the confirmed state. If `commit` rejects, only that layer is rolled
+ * back: updates made in the meantime and other pending layers are kept.
+ * Updates made in the meantime are rebased under the layer, so the layer
+ * is re-applied on top of them; `apply` should therefore be pure. Function
+ * updates are re-run against the state without the layers, so they must be
+ * pure too.
+ *
+ * @param store The store to update.
+ * @param apply Computes the optimistic state from the current state.
+ * @param commit The promise confirming the change, or a function starting
+ * it once the update is applied.
+ * @returns `commit`'s promise, which rejects after rolling back.
+ * @example
+ * optimistic(
+ *   useTodoStore,
+ *   (state) => ({ ...state, todos: state.todos.map(toggle(id)) }),
+ *   () => api.toggleTodo(id)
+ * );
+ */
+export function optimistic<T extends object, R>(
+  store: StoreHook<T, any>,
+  apply: StateUpdater<T>,
+  commit: Promise<R> | (() => Promise<R>)
+): Promise<R> {
+  // Computed before anything is registered, so a throwing `apply` leaves
+  // nothing behind.
+  let optimisticState: T;
+  try {
+    optimisticState = apply(store.getState());
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  let entry = optimisticLayers.get(store) as OptimisticLayers<T> | undefined;
+  if (!entry) {
+    const created: OptimisticLayers<T> = {
+      confirmed: store.getState(),
+      layers: [],
+      unsubscribe: () => {},
+    };
+    const isOwnUpdate = (meta: UpdateMeta) =>
+      meta === optimisticMeta || meta === rebaseMeta || meta === rollbackMeta;
+    // Other updates are moved under the pending layers: function updates
+    // are re-run against the confirmed state, and whole states are merged
+    // into it. The layers are then re-applied on top.
+    const observers = storeUpdateObservers.get(store)!;
+    const observer: UpdateObserver<T> = (prevState, state, meta, updater) => {
+      if (isOwnUpdate(meta)) return;
+      created.confirmed = updater
+        ? updater(created.confirmed)
+        : (mergeUpdate(created.confirmed, prevState, state) as T);
+    };
+    observers.add(observer);
+    const unsubscribe = store.onChange((state, _prevState, meta) => {
+      if (isOwnUpdate(meta)) return;
+      const rebased = applyLayers(created);
+      if (!deepEqual(rebased, state)) store.setState(rebased, rebaseMeta);
+    });
+    created.unsubscribe = () => {
+      observers.delete(observer);
+      unsubscribe();
+    };
+    optimisticLayers.set(store, created);
+    entry = created;
+  }
+
+  const layers = entry;
+  // Wrapped so the same function can be applied twice as separate layers.
+  const layer: StateUpdater<T> = (state) => apply(state);
+  layers.layers.push(layer);
+  store.setState(optimisticState, optimisticMeta);
+
+  const removeLayer = () => {
+    layers.layers.splice(layers.layers.indexOf(layer), 1);
+    if (layers.layers.length === 0) {
+      layers.unsubscribe();
+      optimisticLayers.delete(store);
+    }
+  };
+
+  const promise =
+    typeof commit === "function"
+      ? new Promise<R>((resolve) => resolve(commit()))
+      : commit;
+
+  return promise.then(
+    (result) => {
+      layers.confirmed = apply(layers.confirmed);
+      removeLayer();
+      return result;
+    },
+    (error: unknown) => {
+      removeLayer();
+      if (!store.destroyed) store.setState(applyLayers(layers), rollbackMeta);
+      throw error;
+    }
+  );
+}
+
+// --- REACTIONS ---
+
+/**
+ * Runs a side effect whenever the slice of a store picked by `selector`
+ * changes, e.g. to sync it to the URL or log it. The effect receives the
+ * new and the previous value, and may return a cleanup function, which
+ * runs before the next effect and when the reaction is disposed. With
+ * `debounce` or `throttle`, the previous value is the one the effect last
+ * ran with. Store reactions are disposed when the store is destroyed.
+ *
+ * @param store The store, or derived store, to watch.
+ * @param selector Picks the value the effect depends on.
+ * @param effect The side effect, called with the new and previous value.
+ * @param options `equalityFn`, `fireImmediately`, and `debounce` or
+ * `throttle` in milliseconds.
+ * @returns A function that disposes the reaction, running the last cleanup.
+ * @example
+ * const dispose = reaction(
+ *   useTodoStore,
+ *   (state) => state.filter,
+ *   (filter) => history.replaceState(null, "", `?filter=${filter}`),
+ *   { debounce: 100 }
+ * );
+ */
+export function reaction<T, S>(
+  store: ReadonlyStoreHook<T>,
+  selector: Selector<T, S>,
+  effect: ReactionEffect<S>,
+  options: ReactionOptions<S> = {}
+): () => void {
+  const {
+    equalityFn = Object.is,
+    fireImmediately = false,
+    debounce,
+    throttle,
+  } = options;
+
+  let value = selector(store.getState());
+  let cleanup: void | (() => void);
+  let disposed = false;
+
+  const run = (nextValue: S, prevValue: S) => {
+    const runCleanup = cleanup;
+    cleanup = undefined;
+    runCleanup?.();
+    cleanup = effect(nextValue, prevValue);
+  };
+
+  // Compared against the value the effect last ran with, so a change that
+  // is undone before a delayed run doesn't trigger it.
+  const flush = (nextValue: S) => {
+    if (disposed || equalityFn(value, nextValue)) return;
+    const prevValue = value;
+    value = nextValue;
+    run(nextValue, prevValue);
+  };
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let lastRun = -Infinity;
+  let pendingValue = value;
+
+  const schedule = (nextValue: S) => {
+    if (debounce !== undefined) {
+      clearTimeout(timer);
+      timer = setTimeout(() => flush(nextValue), debounce);
+    } else if (throttle !== undefined) {
+      pendingValue = nextValue;
+      if (timer !== undefined) return;
+      const wait = lastRun + throttle - Date.now();
+      if (wait <= 0) {
+        lastRun = Date.now();
+        flush(nextValue);
+        return;
+      }
+      timer = setTimeout(() => {
+        timer = undefined;
+        lastRun = Date.now();
+        flush(pendingValue);
+      }, wait);
+    } else {
+      flush(nextValue);
+    }
+  };
+
+  const unsubscribe = store.subscribe((state) => schedule(selector(state)));
+  if (fireImmediately) run(value, value);
+
+  // Derived stores have no `onDestroy`; their reactions are only disposed
+  // by hand.
+  const { onDestroy } = store as Partial<Pick<Store<T>, "onDestroy">>;
+  let removeDestroyCallback = () => {};
+  const dispose = () => {
+    if (disposed) return;
+    disposed = true;
+    unsubscribe();
+    removeDestroyCallback();
+    clearTimeout(timer);
+    const runCleanup = cleanup;
+    cleanup = undefined;
+    runCleanup?.();
+  };
+  if (onDestroy) removeDestroyCallback = onDestroy(() => dispose());
+
+  return dispose;
 }
 
 // --- EXPORTED TYPES ---
 
-export type { Selector, StateUpdater, SetState, StoreHook };
+export type {
+  Actions,
+  ActionsCreator,
+  AsyncAction,
+  AsyncActionOptions,
+  AsyncActionStatus,
+  AsyncStatus,
+  ChangeListener,
+  DeepPartial,
+  DevtoolsApi,
+  DevtoolsConnection,
+  DevtoolsExtension,
+  DevtoolsMessage,
+  DevtoolsOptions,
+  EqualityFn,
+  History,
+  HistoryOptions,
+  HistoryStatus,
+  Listener,
+  MemoFamily,
+  Middleware,
+  MiddlewareApi,
+  MigrationRegistry,
+  MutationOptions,
+  MutationResult,
+  PersistApi,
+  PersistOptions,
+  QueryClient,
+  QueryClientOptions,
+  QueryKey,
+  QueryOptions,
+  QueryResult,
+  QueryState,
+  ReactionEffect,
+  ReactionOptions,
+  ReadonlyStoreHook,
+  Recipe,
+  Resource,
+  ResourceStatus,
+  SelectionListener,
+  Selector,
+  StateUpdater,
+  SetState,
+  Snapshot,
+  StatesOf,
+  StorageAdapter,
+  StoreContext,
+  StoreHook,
+  StoreOptions,
+  StoreProviderProps,
+  SubscribeOptions,
+  SyncTabsApi,
+  SyncTabsOptions,
+  Transaction,
+  UpdateMeta,
+};
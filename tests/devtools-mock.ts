@@ -0,0 +1,66 @@
+// A stand-in for the Redux DevTools extension, for testing `devtools` in jsdom
+
+import type {
+  DevtoolsConnection,
+  DevtoolsExtension,
+  DevtoolsMessage,
+} from '../src/index';
+
+export interface MockDevtoolsConnection extends DevtoolsConnection {
+  name: string | undefined;
+  /** Every `init` and `send` call, in order. */
+  calls: { method: 'init' | 'send'; action?: unknown; state: unknown }[];
+  /** Simulates a message sent by the extension. */
+  dispatch: (payload: { type: string; [key: string]: unknown }, state?: unknown) => void;
+  readonly subscribed: boolean;
+}
+
+export interface MockDevtoolsExtension extends DevtoolsExtension {
+  connections: MockDevtoolsConnection[];
+}
+
+export function createMockDevtoolsExtension(): MockDevtoolsExtension {
+  const connections: MockDevtoolsConnection[] = [];
+
+  return {
+    connections,
+    connect: ({ name }) => {
+      const listeners = new Set<(message: DevtoolsMessage) => void>();
+      const connection: MockDevtoolsConnection = {
+        name,
+        calls: [],
+        init: (state) => {
+          connection.calls.push({ method: 'init', state });
+        },
+        send: (action, state) => {
+          connection.calls.push({ method: 'send', action, state });
+        },
+        subscribe: (listener) => {
+          listeners.add(listener);
+          return () => listeners.delete(listener);
+        },
+        dispatch: (payload, state) => {
+          const message: DevtoolsMessage = { type: 'DISPATCH', payload };
+          if (state !== undefined) message.state = JSON.stringify(state);
+          listeners.forEach((listener) => listener(message));
+        },
+        get subscribed() {
+          return listeners.size > 0;
+        },
+      };
+      connections.push(connection);
+      return connection;
+    },
+  };
+}
+
+/** Installs a mock extension on `window` and returns it. */
+export function installMockDevtoolsExtension(): MockDevtoolsExtension {
+  const extension = createMockDevtoolsExtension();
+  (window as any).__REDUX_DEVTOOLS_EXTENSION__ = extension;
+  return extension;
+}
+
+export function uninstallMockDevtoolsExtension(): void {
+  delete (window as any).__REDUX_DEVTOOLS_EXTENSION__;
+}